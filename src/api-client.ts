@@ -0,0 +1,229 @@
+import { createFetch, FetchFunction, NetworkOptions } from './http.js';
+import type { MoltwireConfig } from './types.js';
+import { logger } from './logger.js';
+
+// Consecutive failures before the circuit opens
+const FAILURE_THRESHOLD = 5;
+
+// How long the circuit stays open before a probe is allowed (doubles while probes fail)
+const OPEN_COOLDOWN_MS = 30 * 1000;
+const MAX_OPEN_COOLDOWN_MS = 10 * 60 * 1000;
+
+const DEFAULT_USER_AGENT = 'moltwire-plugin/0.1.0';
+
+export type CircuitStatus = 'closed' | 'open' | 'half_open' | 'offline';
+
+export interface CircuitState {
+  status: CircuitStatus;
+  consecutiveFailures: number;
+  lastError: string | null;
+  retryAt: string | null;
+  degradedSince: string | null;
+}
+
+export interface ApiClientOptions extends Pick<MoltwireConfig, 'apiEndpoint' | 'apiKey'>, NetworkOptions {
+  offline?: boolean;
+  userAgent?: string;
+}
+
+export interface ApiRequestInit extends RequestInit {
+  // Send the bearer API key (default true)
+  auth?: boolean;
+}
+
+/**
+ * Thrown instead of making a request while the circuit is open or offline
+ */
+export class CircuitOpenError extends Error {
+  constructor(status: CircuitStatus) {
+    super(status === 'offline' ? 'Moltwire is in offline mode' : 'Moltwire API circuit is open');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Shared HTTP client for the Moltwire API with a circuit breaker
+ *
+ * Network errors and 5xx responses count as failures. After
+ * FAILURE_THRESHOLD consecutive failures the circuit opens and requests
+ * fail fast with CircuitOpenError. Once the cooldown passes a single probe
+ * request is let through (half-open); success closes the circuit, failure
+ * reopens it with a longer cooldown.
+ */
+export class ApiClient {
+  private apiEndpoint: string;
+  private apiKey: string;
+  private userAgent: string;
+  private fetchImpl: FetchFunction;
+  private offline: boolean;
+  private status: 'closed' | 'open' | 'half_open' = 'closed';
+  private consecutiveFailures = 0;
+  private cooldownMs = OPEN_COOLDOWN_MS;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastError: string | null = null;
+  private degradedSince: number | null = null;
+
+  constructor(options: ApiClientOptions) {
+    this.apiEndpoint = options.apiEndpoint;
+    this.apiKey = options.apiKey;
+    this.userAgent = options.userAgent || DEFAULT_USER_AGENT;
+    this.fetchImpl = createFetch(options);
+    this.offline = options.offline ?? false;
+    if (this.offline) {
+      this.degradedSince = Date.now();
+    }
+  }
+
+  /**
+   * Make a request to an API path (e.g. `/v1/events`)
+   * Throws CircuitOpenError without touching the network when unavailable
+   */
+  async fetch(path: string, init: ApiRequestInit = {}): Promise<Response> {
+    const { auth = true, headers, ...rest } = init;
+
+    if (!this.isAvailable()) {
+      throw new CircuitOpenError(this.getStatus());
+    }
+
+    if (this.status === 'open') {
+      this.status = 'half_open';
+    }
+    if (this.status === 'half_open') {
+      this.probeInFlight = true;
+    }
+
+    const requestHeaders: Record<string, string> = {
+      'User-Agent': this.userAgent,
+      ...(headers as Record<string, string> | undefined)
+    };
+    if (auth && this.apiKey) {
+      requestHeaders['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.apiEndpoint}${path}`, { ...rest, headers: requestHeaders });
+    } catch (error) {
+      this.recordFailure(error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+
+    if (response.status >= 500) {
+      this.recordFailure(`API error: ${response.status}`);
+    } else {
+      this.recordSuccess();
+    }
+
+    return response;
+  }
+
+  /**
+   * Whether a request would be attempted right now
+   */
+  isAvailable(): boolean {
+    if (this.offline) return false;
+    if (this.status === 'closed') return true;
+    if (this.probeInFlight) return false;
+    return Date.now() >= this.openedAt + this.cooldownMs;
+  }
+
+  /**
+   * Milliseconds until the next request is allowed (0 when available)
+   */
+  getRetryDelay(): number {
+    if (this.offline || this.status === 'closed' || this.probeInFlight) return 0;
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  /**
+   * Milliseconds the client has been degraded (open circuit or offline), 0 if healthy
+   */
+  getDegradedDuration(): number {
+    return this.degradedSince ? Date.now() - this.degradedSince : 0;
+  }
+
+  /**
+   * Get the current circuit state for status reporting
+   */
+  getState(): CircuitState {
+    const retryDelay = this.getRetryDelay();
+    return {
+      status: this.getStatus(),
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      retryAt: retryDelay > 0 ? new Date(Date.now() + retryDelay).toISOString() : null,
+      degradedSince: this.degradedSince ? new Date(this.degradedSince).toISOString() : null
+    };
+  }
+
+  /**
+   * Enter or leave offline mode
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline;
+    if (offline && !this.degradedSince) {
+      this.degradedSince = Date.now();
+    } else if (!offline && this.status === 'closed') {
+      this.degradedSince = null;
+    }
+  }
+
+  /**
+   * Whether offline mode is enabled
+   */
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Update the API key
+   */
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Update the API endpoint
+   */
+  setEndpoint(endpoint: string): void {
+    this.apiEndpoint = endpoint;
+  }
+
+  private getStatus(): CircuitStatus {
+    return this.offline ? 'offline' : this.status;
+  }
+
+  private recordSuccess(): void {
+    this.status = 'closed';
+    this.consecutiveFailures = 0;
+    this.cooldownMs = OPEN_COOLDOWN_MS;
+    this.probeInFlight = false;
+    this.lastError = null;
+    if (!this.offline) {
+      this.degradedSince = null;
+    }
+  }
+
+  private recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastError = reason;
+
+    if (this.status === 'half_open') {
+      this.cooldownMs = Math.min(this.cooldownMs * 2, MAX_OPEN_COOLDOWN_MS);
+      this.open();
+    } else if (this.status === 'closed' && this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.open();
+      logger.warn(`API unreachable after ${this.consecutiveFailures} failures, pausing requests`);
+    }
+  }
+
+  private open(): void {
+    this.status = 'open';
+    this.openedAt = Date.now();
+    this.probeInFlight = false;
+    if (!this.degradedSince) {
+      this.degradedSince = Date.now();
+    }
+  }
+}
@@ -0,0 +1,117 @@
+// First retry delay before jitter
+const BASE_DELAY_MS = 2000;
+
+export interface BackoffState {
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  paused: boolean;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Jittered exponential backoff with a cap
+ *
+ * Each delay is a random value between half and the whole of the
+ * exponential step, so many agents recovering from the same
+ * outage don't retry in lockstep. A server-provided Retry-After always wins.
+ */
+export class Backoff {
+  private maxDelayMs: number;
+  private attempts = 0;
+  private nextAttemptAt = 0;
+  private lastError: string | null = null;
+  private paused = false;
+
+  constructor(maxDelayMs: number) {
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  /**
+   * Record a retryable failure and return the delay until the next attempt
+   */
+  failure(reason: string, retryAfterMs?: number): number {
+    this.attempts++;
+    this.lastError = reason;
+
+    let delay: number;
+    if (retryAfterMs !== undefined) {
+      delay = Math.min(retryAfterMs, this.maxDelayMs);
+    } else {
+      const step = Math.min(this.maxDelayMs, BASE_DELAY_MS * 2 ** (this.attempts - 1));
+      delay = step / 2 + Math.random() * (step / 2);
+    }
+
+    this.nextAttemptAt = Date.now() + delay;
+    return delay;
+  }
+
+  /**
+   * Stop attempting until reset() (e.g. credentials were rejected)
+   */
+  pause(reason: string): void {
+    this.paused = true;
+    this.lastError = reason;
+  }
+
+  /**
+   * Record a successful attempt
+   */
+  success(): void {
+    this.attempts = 0;
+    this.nextAttemptAt = 0;
+    this.lastError = null;
+  }
+
+  /**
+   * Clear all state, including a pause
+   */
+  reset(): void {
+    this.success();
+    this.paused = false;
+  }
+
+  /**
+   * Whether an attempt is allowed right now
+   */
+  ready(): boolean {
+    return !this.paused && Date.now() >= this.nextAttemptAt;
+  }
+
+  /**
+   * Milliseconds until the next attempt is allowed
+   */
+  delayRemaining(): number {
+    return Math.max(0, this.nextAttemptAt - Date.now());
+  }
+
+  /**
+   * Get the current state for status reporting
+   */
+  getState(): BackoffState {
+    return {
+      attempts: this.attempts,
+      nextAttemptAt: this.nextAttemptAt > Date.now() ? new Date(this.nextAttemptAt).toISOString() : null,
+      lastError: this.lastError,
+      paused: this.paused
+    };
+  }
+}
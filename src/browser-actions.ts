@@ -0,0 +1,114 @@
+import type { BrowserAction, BrowserActionKind, SensitiveField } from './types.js';
+
+// OpenClaw browser actions and `act` request kinds, plus common aliases
+const ACTION_KINDS: Record<string, BrowserActionKind> = {
+  navigate: 'navigate',
+  open: 'navigate',
+  goto: 'navigate',
+  click: 'click',
+  dblclick: 'click',
+  doubleclick: 'click',
+  fill: 'fill',
+  type: 'fill',
+  fill_form: 'fill',
+  fillform: 'fill',
+  select: 'fill',
+  upload: 'upload',
+  setinputfiles: 'upload',
+  file_upload: 'upload',
+  download: 'download',
+  waitfordownload: 'download',
+  evaluate: 'evaluate',
+  eval: 'evaluate',
+  script: 'evaluate',
+  execute: 'evaluate',
+  screenshot: 'screenshot',
+  pdf: 'screenshot'
+};
+
+// Keys describing a field, as opposed to the value typed into it
+const DESCRIPTOR_KEYS = ['ref', 'selector', 'element', 'name', 'label', 'placeholder', 'id', 'autocomplete', 'inputType', 'fieldType', 'type'];
+const VALUE_KEYS = ['value', 'text'];
+const URL_KEYS = ['targetUrl', 'url', 'href'];
+const FILE_KEYS = ['paths', 'files', 'path', 'file', 'filePaths'];
+
+const PASSWORD_FIELD = /passw|pwd|passcode|\bpin\b|one-time-code|\botp\b|\bmfa\b|\b2fa\b|totp/i;
+const PAYMENT_FIELD = /card.?num|credit.?card|\bcc-|\bcc.?(num|number|exp|csc|cvv)|cvv|cvc|\bcsc\b|security.?code|card.?exp/i;
+
+/**
+ * Whether a digit string passes the Luhn check used by card numbers
+ */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Judge a field from its name, label or type, and the shape of the value filled in
+ */
+export function fieldSensitivity(descriptor: string, value?: string): SensitiveField | undefined {
+  if (PASSWORD_FIELD.test(descriptor)) return 'password';
+  if (PAYMENT_FIELD.test(descriptor)) return 'payment';
+
+  const digits = value?.replace(/[\s-]/g, '');
+  if (digits && /^\d{13,19}$/.test(digits) && isLuhnValid(digits)) return 'payment';
+  return undefined;
+}
+
+function stringsOf(source: Record<string, unknown>, keys: string[]): string[] {
+  const values: string[] = [];
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value) values.push(value);
+    if (Array.isArray(value)) values.push(...value.filter((v): v is string => typeof v === 'string' && !!v));
+  }
+  return values;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+/**
+ * Read a browser tool call from its structured arguments
+ * Handles both flat calls (`{ action: 'navigate', targetUrl }`) and OpenClaw's
+ * `{ action: 'act', request: { kind: 'fill', fields: [...] } }`. Filled values
+ * are only inspected to flag sensitive fields and are not kept.
+ */
+export function parseBrowserAction(raw: unknown): BrowserAction | undefined {
+  const args = asRecord(raw);
+  if (!args) return undefined;
+
+  const request = asRecord(args.request) || args;
+  const name = String(request.kind || request.action || args.action || '').toLowerCase();
+  const kind = ACTION_KINDS[name] || (name ? 'other' : undefined);
+  if (!kind) return undefined;
+
+  const sensitiveFields = new Set<SensitiveField>();
+  if (kind === 'fill') {
+    const fields = Array.isArray(request.fields) ? request.fields.map(asRecord) : [request];
+    for (const field of fields) {
+      if (!field) continue;
+      const sensitivity = fieldSensitivity(
+        stringsOf(field, DESCRIPTOR_KEYS).join(' '),
+        stringsOf(field, VALUE_KEYS)[0]
+      );
+      if (sensitivity) sensitiveFields.add(sensitivity);
+    }
+  }
+
+  return {
+    kind,
+    url: stringsOf(request, URL_KEYS)[0] || stringsOf(args, URL_KEYS)[0],
+    files: kind === 'upload' ? stringsOf(request, FILE_KEYS) : [],
+    sensitiveFields: [...sensitiveFields]
+  };
+}
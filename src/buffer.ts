@@ -1,43 +1,185 @@
-import type { MoltwireEvent } from './types.js';
+import { existsSync, readFileSync, appendFileSync, mkdirSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import type { MoltwireEvent, MoltwireConfig } from './types.js';
+import { logger } from './logger.js';
 
-const MAX_BUFFER_SIZE = 10000;
+const BUFFER_DIR = join(homedir(), '.openclaw', 'moltwire', 'buffer');
+
+// Upper bound for a single segment file; smaller budgets use a quarter of the budget
+const MAX_SEGMENT_BYTES = 1024 * 1024;
+
+interface BufferedEntry {
+  event: MoltwireEvent;
+  segment: number;
+  bytes: number;
+}
+
+interface Segment {
+  id: number;
+  bytes: number;
+  total: number;
+  acked: number;
+}
+
+export interface BufferStats {
+  pending: number;
+  inFlight: number;
+  bytes: number;
+  segments: number;
+  recovered: number;
+  dropped: number;
+}
 
 /**
- * Simple in-memory event buffer with FIFO eviction
+ * Durable event buffer backed by append-only segment files
+ *
+ * Every pushed event is appended to the active `<id>.jsonl` segment before
+ * it becomes visible to flush(). Confirmed events are recorded by event_id
+ * in a sidecar `<id>.ack` file, and a segment is deleted once all of its
+ * events are acknowledged. On start() unacknowledged events are replayed.
  */
 export class EventBuffer {
-  private buffer: MoltwireEvent[] = [];
-  private maxSize: number;
+  private dir: string;
   private flushBatchSize: number;
+  private flushBatchBytes: number;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private segmentBytes: number;
+  private pending: BufferedEntry[] = [];
+  private pendingBytes = 0;
+  private inFlight: Set<BufferedEntry> = new Set();
+  private segments: Map<number, Segment> = new Map();
+  private activeSegment = 0;
+  private started = false;
+  private recovered = 0;
+  private dropped = 0;
 
-  constructor(maxMemorySize = 100, flushBatchSize = 50) {
-    this.maxSize = Math.min(maxMemorySize, MAX_BUFFER_SIZE);
-    this.flushBatchSize = flushBatchSize;
+  constructor(config: MoltwireConfig, dir = BUFFER_DIR) {
+    this.dir = dir;
+    this.flushBatchSize = config.flushBatchSize;
+    this.flushBatchBytes = config.flushBatchBytes;
+    this.maxBytes = config.bufferMaxBytes;
+    this.maxAgeMs = config.bufferMaxAgeHours * 60 * 60 * 1000;
+    this.segmentBytes = Math.min(MAX_SEGMENT_BYTES, Math.floor(this.maxBytes / 4));
   }
 
   /**
-   * Add an event to the buffer
+   * Open the segment store and replay unsent events from previous runs
+   * Returns the number of recovered events
+   */
+  start(): number {
+    if (this.started) return this.recovered;
+    this.started = true;
+
+    try {
+      if (!existsSync(this.dir)) {
+        mkdirSync(this.dir, { recursive: true });
+      }
+
+      const ids = readdirSync(this.dir)
+        .filter(name => /^\d+\.jsonl$/.test(name))
+        .map(name => parseInt(name, 10))
+        .sort((a, b) => a - b);
+
+      // One bad segment must not hold back the ones after it
+      for (const id of ids) {
+        try {
+          this.replaySegment(id);
+        } catch (error) {
+          logger.error(`Skipping unreadable buffer segment ${this.segmentPath(id)}`, { error });
+        }
+      }
+
+      this.activeSegment = ids.length > 0 ? ids[ids.length - 1] + 1 : 1;
+    } catch (error) {
+      logger.error('Failed to open event buffer', { error });
+      this.activeSegment = Date.now();
+    }
+
+    this.recovered = this.pending.length;
+    this.enforceAge();
+    this.enforceSize();
+
+    if (this.recovered > 0) {
+      logger.info(`Recovered ${this.recovered} unsent events from disk`);
+    }
+
+    return this.recovered;
+  }
+
+  /**
+   * Add an event to the buffer, writing it to disk first
    */
   push(event: MoltwireEvent): void {
-    this.buffer.push(event);
+    if (!this.started) this.start();
+
+    const line = JSON.stringify(event) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    let segment = this.segments.get(this.activeSegment);
+    if (segment && segment.bytes + bytes > this.segmentBytes) {
+      this.rotate();
+      segment = undefined;
+    }
+
+    try {
+      appendFileSync(this.segmentPath(this.activeSegment), line, 'utf-8');
+    } catch (error) {
+      logger.error('Failed to persist event', { error });
+    }
 
-    // Enforce max size with FIFO eviction
-    while (this.buffer.length > this.maxSize) {
-      this.buffer.shift();
+    if (!segment) {
+      segment = { id: this.activeSegment, bytes: 0, total: 0, acked: 0 };
+      this.segments.set(segment.id, segment);
     }
+    segment.bytes += bytes;
+    segment.total++;
+
+    this.pending.push({ event, segment: segment.id, bytes });
+    this.pendingBytes += bytes;
+    this.enforceSize();
   }
 
   /**
-   * Get events ready to flush (up to batchSize)
-   * Returns events and a callback to confirm they were sent
+   * Get events ready to flush (up to batchSize events and batchBytes bytes)
+   * Events stay on disk until confirm() is called. release() hands an
+   * unconfirmed batch back so it is retried by the next flush.
    */
-  flush(): { events: MoltwireEvent[]; confirm: () => void } {
-    const events = this.buffer.splice(0, this.flushBatchSize);
+  flush(): { events: MoltwireEvent[]; confirm: (events?: MoltwireEvent[]) => void; release: () => void } {
+    this.enforceAge();
+
+    const batch: BufferedEntry[] = [];
+    let batchBytes = 0;
+    for (const entry of this.pending) {
+      if (batch.length >= this.flushBatchSize) break;
+      if (this.inFlight.has(entry)) continue;
+
+      // Always send at least one event, even if it alone exceeds the limit
+      if (batch.length > 0 && batchBytes + entry.bytes > this.flushBatchBytes) break;
+
+      batch.push(entry);
+      batchBytes += entry.bytes;
+    }
+
+    for (const entry of batch) {
+      this.inFlight.add(entry);
+    }
 
     return {
-      events,
-      confirm: () => {
-        // Events already removed from buffer
+      events: batch.map(entry => entry.event),
+      confirm: (events?: MoltwireEvent[]) => {
+        const ids = events ? new Set(events.map(e => e.event_id)) : null;
+        const done = batch.filter(entry => !ids || ids.has(entry.event.event_id));
+        this.acknowledge(done);
+        for (const entry of batch) {
+          this.inFlight.delete(entry);
+        }
+      },
+      release: () => {
+        for (const entry of batch) {
+          this.inFlight.delete(entry);
+        }
       }
     };
   }
@@ -46,20 +188,202 @@ export class EventBuffer {
    * Get the total number of buffered events
    */
   size(): number {
-    return this.buffer.length;
+    return this.pending.length;
+  }
+
+  /**
+   * Get the total serialized size of buffered events
+   */
+  bytes(): number {
+    return this.pendingBytes;
   }
 
   /**
    * Check if buffer has events
    */
   hasEvents(): boolean {
-    return this.buffer.length > 0;
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Get buffer statistics
+   */
+  getStats(): BufferStats {
+    return {
+      pending: this.pending.length,
+      inFlight: this.inFlight.size,
+      bytes: this.pendingBytes,
+      segments: this.segments.size,
+      recovered: this.recovered,
+      dropped: this.dropped
+    };
   }
 
   /**
-   * Close the buffer (no-op for in-memory)
+   * Close the buffer
+   * Writes are synchronous, so unconfirmed events are already on disk
    */
   close(): void {
-    // Nothing to close
+    this.inFlight.clear();
+  }
+
+  /**
+   * Load one segment, skipping acknowledged and unreadable lines
+   */
+  private replaySegment(id: number): void {
+    const acked = new Set<string>();
+    const ackPath = this.ackPath(id);
+    if (existsSync(ackPath)) {
+      for (const line of readFileSync(ackPath, 'utf-8').split('\n')) {
+        if (line) acked.add(line);
+      }
+    }
+
+    const segment: Segment = { id, bytes: statSync(this.segmentPath(id)).size, total: 0, acked: 0 };
+
+    for (const line of readFileSync(this.segmentPath(id), 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+
+      let event: MoltwireEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Torn write from a crash, nothing to recover
+        continue;
+      }
+
+      segment.total++;
+      if (acked.has(event.event_id)) {
+        segment.acked++;
+      } else {
+        const bytes = Buffer.byteLength(line) + 1;
+        this.pending.push({ event, segment: id, bytes });
+        this.pendingBytes += bytes;
+      }
+    }
+
+    this.segments.set(id, segment);
+    this.removeIfDone(segment, true);
+  }
+
+  /**
+   * Record entries as delivered and drop them from the pending list
+   */
+  private acknowledge(entries: BufferedEntry[]): void {
+    if (entries.length === 0) return;
+
+    const done = new Set(entries);
+    const before = this.pending.length;
+    this.pending = this.pending.filter(entry => !done.has(entry));
+    if (this.pending.length !== before) {
+      this.pendingBytes = this.pending.reduce((sum, entry) => sum + entry.bytes, 0);
+    }
+
+    const bySegment = new Map<number, string[]>();
+    for (const entry of entries) {
+      const ids = bySegment.get(entry.segment) || [];
+      ids.push(entry.event.event_id);
+      bySegment.set(entry.segment, ids);
+    }
+
+    for (const [id, eventIds] of bySegment) {
+      const segment = this.segments.get(id);
+      if (!segment) continue;
+
+      try {
+        appendFileSync(this.ackPath(id), eventIds.join('\n') + '\n', 'utf-8');
+      } catch (error) {
+        logger.error('Failed to record delivered events', { error });
+      }
+
+      segment.acked += eventIds.length;
+      this.removeIfDone(segment, false);
+    }
+  }
+
+  /**
+   * Drop events older than the configured age budget
+   */
+  private enforceAge(): void {
+    const cutoff = Date.now() - this.maxAgeMs;
+    const expired = this.pending.filter(
+      entry => !this.inFlight.has(entry) && new Date(entry.event.timestamp).getTime() < cutoff
+    );
+
+    if (expired.length > 0) {
+      this.dropped += expired.length;
+      this.acknowledge(expired);
+      logger.warn(`Dropped ${expired.length} buffered events older than ${this.maxAgeMs / 3600000}h`);
+    }
+  }
+
+  /**
+   * Enforce the byte budget by evicting the oldest closed segments
+   */
+  private enforceSize(): void {
+    let totalBytes = 0;
+    for (const segment of this.segments.values()) {
+      totalBytes += segment.bytes;
+    }
+
+    while (totalBytes > this.maxBytes && this.segments.size > 0) {
+      const oldest = Math.min(...this.segments.keys());
+      if (oldest === this.activeSegment) break;
+
+      const segment = this.segments.get(oldest)!;
+      const evicted = this.pending.filter(entry => entry.segment === oldest);
+      this.pending = this.pending.filter(entry => entry.segment !== oldest);
+      this.pendingBytes -= evicted.reduce((sum, entry) => sum + entry.bytes, 0);
+      for (const entry of evicted) {
+        this.inFlight.delete(entry);
+      }
+
+      this.dropped += evicted.length;
+      totalBytes -= segment.bytes;
+      this.deleteSegment(segment);
+
+      if (evicted.length > 0) {
+        logger.warn(`Buffer over ${this.maxBytes} bytes, dropped ${evicted.length} oldest events`);
+      }
+    }
+  }
+
+  /**
+   * Start a new active segment
+   */
+  private rotate(): void {
+    const previous = this.segments.get(this.activeSegment);
+    this.activeSegment++;
+    if (previous) {
+      this.removeIfDone(previous, false);
+    }
+  }
+
+  /**
+   * Delete a segment once every event in it is acknowledged
+   */
+  private removeIfDone(segment: Segment, force: boolean): void {
+    if (segment.acked < segment.total) return;
+    if (!force && segment.id === this.activeSegment) return;
+    this.deleteSegment(segment);
+  }
+
+  private deleteSegment(segment: Segment): void {
+    this.segments.delete(segment.id);
+    for (const path of [this.segmentPath(segment.id), this.ackPath(segment.id)]) {
+      try {
+        if (existsSync(path)) unlinkSync(path);
+      } catch {
+        // Ignore errors, segment is replayed as acknowledged next start
+      }
+    }
+  }
+
+  private segmentPath(id: number): string {
+    return join(this.dir, `${String(id).padStart(10, '0')}.jsonl`);
+  }
+
+  private ackPath(id: number): string {
+    return join(this.dir, `${String(id).padStart(10, '0')}.ack`);
   }
 }
@@ -0,0 +1,190 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { hashIdentifier } from './anonymizer.js';
+
+const OPENCLAW_DIR = join(homedir(), '.openclaw');
+const OPENCLAW_CONFIG_FILE = join(OPENCLAW_DIR, 'openclaw.json');
+const CREDENTIALS_DIR = join(OPENCLAW_DIR, 'credentials');
+
+// How often pairing allowlists are re-read from disk
+const PAIRING_RELOAD_MS = 60 * 1000;
+
+/**
+ * Logger/subsystem name fragments and the channel they belong to
+ * Checked in order against each `/`, `:` or `.` separated part of the name.
+ */
+export const DEFAULT_CHANNEL_MAPPINGS: Record<string, string> = {
+  'whatsapp': 'whatsapp',
+  'web-inbound': 'whatsapp',
+  'telegram': 'telegram',
+  'discord': 'discord',
+  'slack': 'slack',
+  'signal': 'signal',
+  'imessage': 'imessage',
+  'bluebubbles': 'imessage',
+  'matrix': 'matrix',
+  'email': 'email',
+  'gmail': 'email',
+  'imap': 'email',
+  'smtp': 'email',
+  'webchat': 'webchat',
+  'web-chat': 'webchat',
+  'control-ui': 'webchat',
+  'cli': 'cli',
+  'tui': 'cli'
+};
+
+export type ConversationType = 'dm' | 'group';
+
+const DM_TYPES = ['direct', 'dm', 'private', 'im'];
+const GROUP_TYPES = ['group', 'supergroup', 'channel', 'thread', 'room', 'mpim'];
+
+/**
+ * Work out a message's channel from its subsystem name, preferring an
+ * explicit channel on the message itself
+ * `extra` mappings (from config) are checked before the defaults.
+ */
+export function detectChannel(subsystem: string, explicit?: unknown, extra: Record<string, string> = {}): string {
+  const mappings = Object.entries(extra).concat(Object.entries(DEFAULT_CHANNEL_MAPPINGS));
+
+  if (typeof explicit === 'string' && explicit) {
+    const lower = explicit.toLowerCase();
+    return mappings.find(([fragment]) => fragment.toLowerCase() === lower)?.[1] || lower;
+  }
+
+  const parts = subsystem.toLowerCase().split(/[\/:.{}"\s,]+/).filter(Boolean);
+  for (const [fragment, channel] of mappings) {
+    const key = fragment.toLowerCase();
+    if (parts.some(part => part === key || part.startsWith(`${key}-`) || part.endsWith(`-${key}`))) {
+      return channel;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Decide whether a message came from a direct chat or a group
+ * Uses an explicit chat type when OpenClaw logs one, otherwise well-known
+ * identifier shapes; undefined when it can't tell.
+ */
+export function detectConversationType(msg: Record<string, any>): ConversationType | undefined {
+  const chatType = String(msg.chatType ?? msg.chat_type ?? msg.conversationType ?? '').toLowerCase();
+  if (DM_TYPES.includes(chatType)) return 'dm';
+  if (GROUP_TYPES.includes(chatType)) return 'group';
+
+  if (typeof msg.isGroup === 'boolean') return msg.isGroup ? 'group' : 'dm';
+  if (msg.group && typeof msg.group === 'object') return 'group';
+
+  const ids = [msg.chatId, msg.conversationId, msg.from, msg.to]
+    .filter(id => id !== undefined && id !== null)
+    .map(id => String(id).toLowerCase());
+
+  // WhatsApp group JIDs, Telegram group chat ids, prefixed ids
+  if (ids.some(id => id.endsWith('@g.us') || /^-\d+$/.test(id) || /^(group|channel|room):/.test(id))) {
+    return 'group';
+  }
+  if (ids.some(id => id.endsWith('@s.whatsapp.net') || id.endsWith('@c.us') || /^(user|dm):/.test(id))) {
+    return 'dm';
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a sender identifier so the same person matches across formats
+ */
+export function normalizeSenderId(senderId: string): string {
+  return senderId
+    .trim()
+    .toLowerCase()
+    .replace(/@(s\.whatsapp\.net|c\.us)$/, '')
+    .replace(/^(whatsapp|telegram|signal|user|tel):/, '')
+    .replace(/^\+/, '');
+}
+
+/**
+ * Create a deterministic, per-agent sender identity
+ */
+export function createSenderId(channel: string, senderId: string, agentId: string): string {
+  return hashIdentifier(`${agentId}:${channel}:${normalizeSenderId(senderId)}`, 'moltwire-sender');
+}
+
+/**
+ * Senders paired with the agent, from OpenClaw's DM allowlists
+ *
+ * Reads `channels.<channel>.allowFrom` (and `dm.allowFrom`) from
+ * openclaw.json plus the pairing store in ~/.openclaw/credentials.
+ * Only hashes of the identifiers are kept in memory.
+ */
+export class PairedSenders {
+  private configFile: string;
+  private credentialsDir: string;
+  private paired: Map<string, Set<string>> = new Map();
+  private loadedAt = 0;
+
+  constructor(configFile = OPENCLAW_CONFIG_FILE, credentialsDir = CREDENTIALS_DIR) {
+    this.configFile = configFile;
+    this.credentialsDir = credentialsDir;
+  }
+
+  /**
+   * Whether a sender is paired on a channel; undefined when the channel has no allowlist
+   */
+  isPaired(channel: string, senderId: string): boolean | undefined {
+    if (Date.now() - this.loadedAt > PAIRING_RELOAD_MS) {
+      this.load();
+    }
+
+    const allowed = this.paired.get(channel);
+    if (!allowed || !senderId) return undefined;
+    return allowed.has('*') || allowed.has(this.hash(senderId));
+  }
+
+  private hash(senderId: string): string {
+    return hashIdentifier(normalizeSenderId(senderId), 'moltwire-pairing');
+  }
+
+  private load(): void {
+    this.loadedAt = Date.now();
+    const paired: Map<string, Set<string>> = new Map();
+
+    const add = (channel: string, entries: unknown) => {
+      if (!Array.isArray(entries)) return;
+      const set = paired.get(channel) || new Set<string>();
+      for (const entry of entries) {
+        if (entry === '*') {
+          set.add('*');
+        } else if (typeof entry === 'string' || typeof entry === 'number') {
+          set.add(this.hash(String(entry)));
+        }
+      }
+      paired.set(channel, set);
+    };
+
+    try {
+      if (existsSync(this.configFile)) {
+        const channels = JSON.parse(readFileSync(this.configFile, 'utf-8'))?.channels || {};
+        for (const [channel, settings] of Object.entries<any>(channels)) {
+          add(channel, settings?.allowFrom);
+          add(channel, settings?.dm?.allowFrom);
+        }
+      }
+    } catch {
+      // Ignore unreadable config
+    }
+
+    for (const channel of new Set([...Object.values(DEFAULT_CHANNEL_MAPPINGS), ...paired.keys()])) {
+      const file = join(this.credentialsDir, `${channel}-allowFrom.json`);
+      try {
+        if (existsSync(file)) {
+          const data = JSON.parse(readFileSync(file, 'utf-8'));
+          add(channel, Array.isArray(data) ? data : data?.allowFrom);
+        }
+      } catch {
+        // Ignore unreadable pairing store
+      }
+    }
+
+    this.paired = paired;
+  }
+}
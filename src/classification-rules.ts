@@ -0,0 +1,166 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, extname } from 'path';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import { logger } from './logger.js';
+import { compilePathGlob, normalizePath } from './paths.js';
+import type { PatternSeverity } from './types.js';
+
+const MOLTWIRE_DIR = join(homedir(), '.openclaw', 'moltwire');
+const DEFAULT_RULE_FILES = ['classification.yaml', 'classification.yml', 'classification.json'].map(name => join(MOLTWIRE_DIR, name));
+
+// Custom labels look like the built-in patterns: lowercase snake_case
+const LABEL_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * A user classification rule
+ * Matches a tool name, a file path glob, a URL host glob or a command regex,
+ * and labels the match with a built-in CommandPattern or a custom label.
+ */
+export interface ClassificationRule {
+  id: string;
+  pattern: string;
+  // Defaults to the built-in pattern's severity, or medium for custom labels
+  severity?: PatternSeverity;
+  // Tool names, e.g. `vault_read`; the whole call gets the label
+  tools?: string[];
+  // File path globs, e.g. `~/vault/**` or `**/*.pem`
+  paths?: string[];
+  // URL host globs, e.g. `*.corp.example.com`
+  hosts?: string[];
+  // Regex tested against each sub-command of a shell command
+  command?: string;
+}
+
+/**
+ * A rule with its matchers compiled
+ */
+export interface CompiledClassificationRule extends ClassificationRule {
+  pathRegexes: RegExp[];
+  hostRegexes: RegExp[];
+  commandRegex?: RegExp;
+}
+
+/**
+ * Check a user rule, returning a list of problems (empty when valid)
+ */
+export function validateClassificationRule(rule: unknown): string[] {
+  const errors: string[] = [];
+  if (!rule || typeof rule !== 'object') {
+    return ['rule must be an object'];
+  }
+
+  const r = rule as Partial<ClassificationRule>;
+  if (typeof r.id !== 'string' || !r.id) {
+    errors.push('missing "id"');
+  }
+  if (typeof r.pattern !== 'string' || !LABEL_PATTERN.test(r.pattern)) {
+    errors.push('"pattern" must be a lowercase snake_case label');
+  }
+  if (r.severity !== undefined && !SEVERITIES.includes(r.severity)) {
+    errors.push(`"severity" must be one of: ${SEVERITIES.join(', ')}`);
+  }
+
+  for (const key of ['tools', 'paths', 'hosts'] as const) {
+    const list = r[key];
+    if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string' || !item))) {
+      errors.push(`"${key}" must be a list of strings`);
+    }
+  }
+
+  if (r.command !== undefined) {
+    try {
+      new RegExp(String(r.command));
+    } catch {
+      errors.push(`invalid "command" regex: ${r.command}`);
+    }
+  }
+
+  if (!r.tools?.length && !r.paths?.length && !r.hosts?.length && r.command === undefined) {
+    errors.push('needs at least one of "tools", "paths", "hosts" or "command"');
+  }
+
+  return errors;
+}
+
+/**
+ * Turn a host glob into a regex; `*` may span several labels
+ */
+function hostGlobToRegex(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp('^' + source + '$', 'i');
+}
+
+function compileRule(rule: ClassificationRule): CompiledClassificationRule {
+  return {
+    ...rule,
+    pathRegexes: (rule.paths || []).map(compilePathGlob),
+    hostRegexes: (rule.hosts || []).map(hostGlobToRegex),
+    commandRegex: rule.command !== undefined ? new RegExp(rule.command, 'i') : undefined
+  };
+}
+
+/**
+ * Load user classification rules from a YAML or JSON file
+ * The file holds either a list of rules or `{ rules: [...] }`. Rules are
+ * checked in file order ahead of the built-in classification; invalid rules
+ * are skipped with a warning.
+ */
+export function loadClassificationRules(filepath?: string): CompiledClassificationRule[] {
+  const path = filepath || DEFAULT_RULE_FILES.find(p => existsSync(p));
+  if (!path) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    const text = readFileSync(path, 'utf-8');
+    parsed = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    logger.error(`Failed to load classification rules from ${path}`, { error });
+    return [];
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    logger.error(`Classification rules file ${path} must contain a list of rules`);
+    return [];
+  }
+
+  const rules: CompiledClassificationRule[] = [];
+  list.forEach((rule, index) => {
+    const errors = validateClassificationRule(rule);
+    if (errors.length > 0) {
+      logger.warn(`Skipping classification rule #${index} in ${path}: ${errors.join(', ')}`);
+      return;
+    }
+    rules.push(compileRule(rule as ClassificationRule));
+  });
+
+  return rules;
+}
+
+/**
+ * First rule whose tool names match
+ */
+export function matchToolRule(rules: CompiledClassificationRule[], toolName: string): CompiledClassificationRule | undefined {
+  const lower = toolName.toLowerCase();
+  return rules.find(rule => rule.tools?.some(tool => tool.toLowerCase() === lower));
+}
+
+/**
+ * First rule matching a command, one of the paths it touches or one of the hosts it contacts
+ */
+export function matchCommandRule(
+  rules: CompiledClassificationRule[],
+  target: { command?: string; paths?: string[]; hosts?: string[]; cwd?: string }
+): CompiledClassificationRule | undefined {
+  const paths = (target.paths || []).map(path => normalizePath(path, target.cwd));
+  return rules.find(rule =>
+    (rule.commandRegex !== undefined && target.command !== undefined && rule.commandRegex.test(target.command)) ||
+    rule.pathRegexes.some(regex => paths.some(path => regex.test(path))) ||
+    rule.hostRegexes.some(regex => target.hosts?.some(host => regex.test(host)))
+  );
+}
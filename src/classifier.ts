@@ -1,45 +1,64 @@
-import type { CommandPattern, ToolContext } from './types.js';
+import { join, posix } from 'path';
+import { homedir } from 'os';
+import { parseShellCommand, ShellCommand } from './shell-parser.js';
+import { CompiledClassificationRule, matchCommandRule, matchToolRule } from './classification-rules.js';
+import { PathContext, compilePathGlob, isInside, normalizePath, resolveSymlinks } from './paths.js';
+import { commandTargets, extractTargets } from './targets.js';
+import type { BrowserAction, CommandClassification, CommandPattern, PatternSeverity, ToolContext } from './types.js';
 
-// Known credential paths
-const CREDENTIAL_PATHS = [
+// Extensions of data files named like secrets; `tokens.ts` is source code, not a secret
+const CREDENTIAL_DATA_EXTENSIONS = ['json', 'yaml', 'yml', 'env', 'txt', 'ini', 'toml'];
+
+function withDataExtensions(name: string): string[] {
+  return CREDENTIAL_DATA_EXTENSIONS.map(ext => `${name}.${ext}`);
+}
+
+// Known credential files and directories, matched per path segment
+const CREDENTIAL_GLOBS = [
   '.env',
-  '.env.local',
-  '.env.production',
+  '.env.*',
   'auth-profiles.json',
   'credentials',
-  '.ssh',
-  '.aws',
-  '.gcloud',
-  '.azure',
+  ...withDataExtensions('credentials'),
+  'credentials/**',
+  '.ssh/**',
+  '.aws/**',
+  '.gcloud/**',
+  '.config/gcloud/**',
+  '.azure/**',
   '.kube/config',
   '.docker/config.json',
   '.npmrc',
   '.pypirc',
-  'id_rsa',
-  'id_ed25519',
-  '.gnupg',
+  'id_rsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  '.gnupg/**',
   'secrets',
+  ...withDataExtensions('secrets'),
+  'secrets/**',
   'tokens',
+  ...withDataExtensions('tokens'),
+  'tokens/**',
   'api_keys',
-  '.netrc'
-];
+  ...withDataExtensions('api_keys'),
+  '.netrc',
+  '/etc/shadow',
+  '/etc/sudoers'
+].map(compilePathGlob);
 
-// Config paths
-const CONFIG_PATHS = [
-  '.config',
-  '.local',
-  'Library/Preferences',
-  'Library/Application Support',
-  'AppData',
-  '/etc'
-];
+// Config directories
+const CONFIG_GLOBS = [
+  '.config/**',
+  '.local/**',
+  'Library/Preferences/**',
+  'Library/Application Support/**',
+  'AppData/**',
+  '/etc/**'
+].map(compilePathGlob);
 
-// External network indicators
-const EXTERNAL_INDICATORS = [
-  'http://',
-  'https://',
-  'ftp://'
-];
+// OpenClaw's default agent workspace, used when the tool call has no cwd
+const DEFAULT_WORKSPACE = join(homedir(), '.openclaw', 'workspace');
 
 const LOCALHOST_PATTERNS = [
   'localhost',
@@ -48,70 +67,455 @@ const LOCALHOST_PATTERNS = [
   '::1'
 ];
 
+const SHELL_TOOLS = ['exec', 'shell', 'bash'];
+
+// When one command line does several things, the first of these found is the primary pattern
+const PATTERN_PRIORITY: CommandPattern[] = [
+  'reverse_shell',
+  'remote_script_exec',
+  'decode_execute',
+  'file_read_credential',
+  'browser_credential_fill',
+  'browser_payment_fill',
+  'persistence',
+  'chmod_execute',
+  'browser_upload',
+  'curl_external',
+  'ssh_connection',
+  'package_publish',
+  'inline_code',
+  'browser_evaluate',
+  'file_delete',
+  'docker_operation',
+  'npm_install',
+  'process_spawn',
+  'file_write',
+  'file_read_config',
+  'browser_download',
+  'archive_extract',
+  'dns_lookup',
+  'git_operation',
+  'curl_internal',
+  'file_read_home',
+  'file_read_system',
+  'file_read_workspace',
+  'browser_form_fill',
+  'browser_navigate',
+  'browser_click',
+  'browser_screenshot',
+  'unknown'
+];
+
 /**
- * Classify a tool execution into a command pattern
+ * How much each pattern matters on its own, as a hint for anomaly detection
  */
-export function classifyCommand(context: ToolContext): CommandPattern {
+export const PATTERN_SEVERITY: Record<CommandPattern, PatternSeverity> = {
+  reverse_shell: 'critical',
+  remote_script_exec: 'critical',
+  decode_execute: 'critical',
+  file_read_credential: 'high',
+  browser_credential_fill: 'high',
+  browser_payment_fill: 'high',
+  persistence: 'high',
+  chmod_execute: 'high',
+  curl_external: 'medium',
+  ssh_connection: 'medium',
+  package_publish: 'medium',
+  inline_code: 'medium',
+  browser_upload: 'medium',
+  browser_evaluate: 'medium',
+  browser_download: 'medium',
+  file_delete: 'medium',
+  docker_operation: 'medium',
+  npm_install: 'medium',
+  process_spawn: 'medium',
+  file_write: 'low',
+  file_read_config: 'low',
+  archive_extract: 'low',
+  dns_lookup: 'low',
+  git_operation: 'low',
+  curl_internal: 'low',
+  file_read_home: 'low',
+  file_read_system: 'low',
+  file_read_workspace: 'low',
+  browser_form_fill: 'low',
+  browser_navigate: 'low',
+  browser_click: 'low',
+  browser_screenshot: 'low',
+  unknown: 'low'
+};
+
+const SEVERITY_ORDER: PatternSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Programs whose non-option arguments are files they read
+const FILE_READERS = new Set([
+  'cat', 'less', 'more', 'head', 'tail', 'bat', 'nl', 'xxd', 'hexdump', 'od', 'strings', 'base64', 'source', '.'
+]);
+
+const PACKAGE_MANAGERS = new Set(['npm', 'pnpm', 'yarn', 'bun']);
+const INSTALL_SUBCOMMANDS = new Set(['install', 'i', 'add', 'ci']);
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'fish']);
+
+// Interpreters that run code from stdin, and the flags that pass code inline
+const INTERPRETERS = /^(python[0-9.]*|node|nodejs|deno|ruby|perl|php|osascript|pwsh|powershell)$/;
+const INLINE_CODE_FLAGS = new Set(['-c', '-e', '-E', '-p', '-r', '--eval', '--print', '-command']);
+
+const DOWNLOADERS = new Set(['curl', 'wget', 'fetch', 'aria2c']);
+const DNS_TOOLS = new Set(['dig', 'nslookup', 'host', 'drill', 'kdig', 'resolvectl']);
+
+// Cron, systemd, launchd, init scripts and shell startup files
+const PERSISTENCE_PATHS = /(^|\/)(etc\/cron|var\/spool\/cron|etc\/systemd\/|systemd\/user\/|etc\/init\.d\/|etc\/rc\.local|launchagents\/|launchdaemons\/|autostart\/|\.bashrc$|\.bash_profile$|\.zshrc$|\.zprofile$|\.profile$)/i;
+
+/**
+ * Which rule gave a sub-command its pattern
+ */
+export interface ClassificationMatch {
+  // Sub-command text, or the tool name/path for other tools
+  command: string;
+  pattern: string;
+  // Id of the user rule, or 'builtin'
+  rule: string;
+  severity: PatternSeverity;
+}
+
+export interface ClassifyOptions {
+  // Follow symlinks when classifying file reads
+  resolveSymlinks?: boolean;
+}
+
+export interface CommandExplanation extends CommandClassification {
+  matches: ClassificationMatch[];
+}
+
+/**
+ * Classify a tool execution into command patterns
+ * Shell commands are split into their sub-commands and each is classified;
+ * `primary` is the highest-priority pattern found.
+ */
+export function classifyCommand(
+  context: ToolContext,
+  rules: CompiledClassificationRule[] = [],
+  options: ClassifyOptions = {}
+): CommandClassification {
+  const { primary, patterns, severity } = explainCommand(context, rules, options);
+  return { primary, patterns, severity };
+}
+
+/**
+ * Classify a tool execution and report which rule matched each part
+ * User rules are checked first; the first one matching a sub-command (or the
+ * tool) replaces the built-in classification for it.
+ */
+export function explainCommand(
+  context: ToolContext,
+  rules: CompiledClassificationRule[] = [],
+  options: ClassifyOptions = {}
+): CommandExplanation {
   const { toolName, command, args } = context;
   const fullCommand = command || args?.join(' ') || '';
-  const lowerCommand = fullCommand.toLowerCase();
-  const lowerToolName = toolName.toLowerCase();
+  const matches: ClassificationMatch[] = [];
+  let paths: PathContext = { cwd: context.cwd, workspace: context.cwd, resolveSymlinks: options.resolveSymlinks };
 
-  // Browser operations
-  if (lowerToolName === 'browser' || lowerToolName.includes('browser')) {
-    if (lowerCommand.includes('navigate') || lowerCommand.includes('goto') || lowerCommand.includes('url')) {
-      return 'browser_navigate';
-    }
-    if (lowerCommand.includes('fill') || lowerCommand.includes('type') || lowerCommand.includes('input')) {
-      return 'browser_form_fill';
+  const toolRule = matchToolRule(rules, toolName);
+  if (toolRule) {
+    matches.push(ruleMatch(toolName, toolRule));
+  } else if (SHELL_TOOLS.includes(toolName.toLowerCase())) {
+    const commands = parseShellCommand(fullCommand);
+    commands.forEach((cmd, index) => {
+      const text = [cmd.name, ...cmd.args].join(' ').trim();
+      const operands = cmd.args.filter(arg => !arg.startsWith('-'));
+      const userRule = matchCommandRule(rules, {
+        command: text,
+        paths: [...operands, ...cmd.reads, ...cmd.writes],
+        hosts: commandTargets(cmd).map(target => target.host),
+        cwd: paths.cwd
+      });
+
+      if (userRule) {
+        matches.push(ruleMatch(text, userRule));
+      } else {
+        const patterns = classifyShellCommand(cmd, commands.slice(0, index), paths);
+        for (const pattern of patterns.length > 0 ? patterns : ['unknown' as const]) {
+          matches.push(builtinMatch(text, pattern));
+        }
+      }
+
+      // Later relative paths resolve against the new directory
+      if (cmd.name === 'cd' && operands[0] !== '-') {
+        paths = { ...paths, cwd: normalizePath(operands[0] || '~', paths.cwd) };
+      }
+    });
+  } else if (context.browser && isBrowserTool(toolName)) {
+    const { browser } = context;
+    const text = [browser.kind, browser.url].filter(Boolean).join(' ');
+    const userRule = matchCommandRule(rules, {
+      command: text,
+      paths: browser.files,
+      hosts: extractTargets(browser.url || '').map(target => target.host),
+      cwd: paths.cwd
+    });
+    if (userRule) {
+      matches.push(ruleMatch(text, userRule));
+    } else {
+      for (const pattern of classifyBrowserAction(browser, paths)) {
+        matches.push(builtinMatch(text, pattern));
+      }
     }
-    return 'browser_navigate';
+  } else {
+    const userRule = fullCommand
+      ? matchCommandRule(rules, { command: fullCommand, paths: [fullCommand], hosts: extractTargets(fullCommand).map(target => target.host), cwd: paths.cwd })
+      : undefined;
+    matches.push(userRule
+      ? ruleMatch(fullCommand || toolName, userRule)
+      : builtinMatch(fullCommand || toolName, classifyTool(toolName, fullCommand, paths)));
   }
 
-  // Network operations
-  if (lowerToolName === 'exec' || lowerToolName === 'shell' || lowerToolName === 'bash') {
-    // SSH
-    if (lowerCommand.startsWith('ssh ') || lowerCommand.startsWith('scp ')) {
-      return 'ssh_connection';
-    }
+  const found = [...new Set(matches.map(m => m.pattern).filter(p => p !== 'unknown'))];
+  if (found.length === 0) {
+    return { primary: 'unknown', patterns: ['unknown'], severity: 'low', matches };
+  }
 
-    // Docker
-    if (lowerCommand.startsWith('docker ')) {
-      return 'docker_operation';
-    }
+  // Custom labels are more specific than any built-in pattern
+  const custom = found.find(p => !PATTERN_PRIORITY.includes(p as CommandPattern));
+  const primary = custom || PATTERN_PRIORITY.find(p => found.includes(p)) || found[0];
+  const severity = SEVERITY_ORDER[Math.max(...matches.map(m => SEVERITY_ORDER.indexOf(m.severity)))];
+  return { primary, patterns: found, severity, matches };
+}
 
-    // Git
-    if (lowerCommand.startsWith('git ')) {
-      return 'git_operation';
+function builtinMatch(command: string, pattern: CommandPattern): ClassificationMatch {
+  return { command, pattern, rule: 'builtin', severity: PATTERN_SEVERITY[pattern] };
+}
+
+function ruleMatch(command: string, rule: CompiledClassificationRule): ClassificationMatch {
+  const severity = rule.severity || PATTERN_SEVERITY[rule.pattern as CommandPattern] || 'medium';
+  return { command, pattern: rule.pattern, rule: rule.id, severity };
+}
+
+/**
+ * Patterns for one simple command of a shell command line
+ * `previous` holds the commands before it on the same line, for patterns
+ * that span commands such as `chmod +x x.sh && ./x.sh`.
+ */
+function classifyShellCommand(cmd: ShellCommand, previous: ShellCommand[], paths: PathContext): CommandPattern[] {
+  const patterns: CommandPattern[] = [];
+  const name = cmd.name.toLowerCase();
+  const operands = cmd.args.filter(arg => !arg.startsWith('-'));
+  const joined = cmd.args.join(' ');
+
+  if (isReverseShell(cmd)) {
+    patterns.push('reverse_shell');
+  }
+  if (runsCode(name, cmd.args)) {
+    const upstream = pipelineSources(cmd);
+    if (upstream.some(source => DOWNLOADERS.has(source.name)) || /(\$\(|`|<\()\s*(curl|wget)\b/.test(joined)) {
+      patterns.push('remote_script_exec');
     }
+    if (upstream.some(isDecoder) || /\bbase64\s+(-d|-D|--decode)\b/.test(joined)) {
+      patterns.push('decode_execute');
+    }
+  }
+  if (name === 'eval' && /\bbase64\s+(-d|-D|--decode)\b/.test(joined)) {
+    patterns.push('decode_execute');
+  }
+  if (isMadeExecutable(cmd, previous)) {
+    patterns.push('chmod_execute');
+  }
+  if (INTERPRETERS.test(name) && (cmd.args.some(arg => INLINE_CODE_FLAGS.has(arg)) || operands[0] === 'eval')) {
+    patterns.push('inline_code');
+  }
 
-    // NPM/package managers
-    if (
-      lowerCommand.startsWith('npm ') ||
-      lowerCommand.startsWith('pnpm ') ||
-      lowerCommand.startsWith('yarn ') ||
-      lowerCommand.startsWith('bun ')
-    ) {
-      if (lowerCommand.includes('install') || lowerCommand.includes('add')) {
-        return 'npm_install';
-      }
+  if (name === 'ssh' || name === 'scp' || name === 'sftp' || name === 'mosh') {
+    patterns.push('ssh_connection');
+  } else if (name === 'rsync' && operands.some(arg => /^[^\/]+:/.test(arg))) {
+    patterns.push('ssh_connection');
+  } else if (name === 'docker' || name === 'docker-compose' || name === 'podman') {
+    patterns.push('docker_operation');
+  } else if (name === 'git') {
+    patterns.push('git_operation');
+  } else if (PACKAGE_MANAGERS.has(name)) {
+    const subcommand = operands[0]?.toLowerCase();
+    if (INSTALL_SUBCOMMANDS.has(subcommand) || (name === 'yarn' && operands.length === 0)) {
+      patterns.push('npm_install');
+    } else if (subcommand === 'publish') {
+      patterns.push('package_publish');
     }
+  } else if (isPublish(name, operands)) {
+    patterns.push('package_publish');
+  } else if (DOWNLOADERS.has(name)) {
+    const targets = commandTargets(cmd);
+    const internal = targets.length > 0
+      ? targets.every(target => target.isInternal)
+      : LOCALHOST_PATTERNS.some(p => joined.toLowerCase().includes(p));
+    patterns.push(internal ? 'curl_internal' : 'curl_external');
+  } else if (DNS_TOOLS.has(name)) {
+    patterns.push('dns_lookup');
+  } else if (isArchiveExtract(name, cmd.args)) {
+    patterns.push('archive_extract');
+  } else if (name === 'crontab' && !cmd.args.includes('-l')) {
+    patterns.push('persistence');
+  } else if ((name === 'systemctl' && operands[0] === 'enable') ||
+             (name === 'launchctl' && ['load', 'bootstrap', 'submit'].includes(operands[0]))) {
+    patterns.push('persistence');
+  } else if (name === 'rm' || name === 'rmdir' || name === 'unlink' || name === 'shred') {
+    patterns.push('file_delete');
+  } else if (name === 'tee' || name === 'cp' || name === 'mv' || name === 'dd') {
+    patterns.push(operands.some(path => PERSISTENCE_PATHS.test(path)) ? 'persistence' : 'file_write');
+  } else if (FILE_READERS.has(name)) {
+    for (const path of operands.filter(arg => !/^\d+$/.test(arg))) {
+      patterns.push(classifyFileRead(path, paths));
+    }
+  }
 
-    // Curl/wget
-    if (lowerCommand.startsWith('curl ') || lowerCommand.startsWith('wget ')) {
-      const isLocal = LOCALHOST_PATTERNS.some(p => lowerCommand.includes(p));
-      return isLocal ? 'curl_internal' : 'curl_external';
+  for (const path of cmd.reads) {
+    patterns.push(classifyFileRead(path, paths));
+  }
+  const writes = cmd.writes.filter(path => path !== '/dev/null' && !/^\/dev\/(tcp|udp)\//.test(path));
+  if (writes.some(path => PERSISTENCE_PATHS.test(path))) {
+    patterns.push('persistence');
+  } else if (writes.length > 0) {
+    patterns.push('file_write');
+  }
+  if (cmd.background || cmd.prefixes.some(p => p === 'nohup' || p === 'setsid' || p === 'exec')) {
+    patterns.push('process_spawn');
+  }
+
+  return patterns;
+}
+
+/**
+ * Whether a command runs code it is handed: a shell or an interpreter
+ * reading stdin, or given a command/process substitution
+ */
+function runsCode(name: string, args: string[]): boolean {
+  if (!SHELLS.has(name) && !INTERPRETERS.test(name)) return false;
+  return args.filter(arg => !arg.startsWith('-')).length === 0 || args.some(arg => /(\$\(|`|<\()/.test(arg));
+}
+
+/**
+ * Commands feeding this one through a pipe, nearest first
+ */
+function pipelineSources(cmd: ShellCommand): ShellCommand[] {
+  const sources: ShellCommand[] = [];
+  for (let source = cmd.pipedFrom; source; source = source.pipedFrom) {
+    sources.push(source);
+  }
+  return sources;
+}
+
+function isDecoder(cmd: ShellCommand): boolean {
+  return (cmd.name === 'base64' && cmd.args.some(arg => ['-d', '-D', '--decode'].includes(arg))) ||
+    (cmd.name === 'xxd' && cmd.args.includes('-r')) ||
+    (cmd.name === 'openssl' && cmd.args.includes('-d'));
+}
+
+/**
+ * `nc -e`, `bash -i >& /dev/tcp/...`, `socat exec:...`, or a shell piped to/from netcat
+ */
+function isReverseShell(cmd: ShellCommand): boolean {
+  const name = cmd.name.toLowerCase();
+  const netcat = (n: string) => n === 'nc' || n === 'ncat' || n === 'netcat';
+
+  if (netcat(name) && cmd.args.some(arg => /^-[a-z]*[ec]$/i.test(arg))) return true;
+  if (name === 'socat' && cmd.args.some(arg => /^(exec|system):/i.test(arg))) return true;
+  if ([...cmd.args, ...cmd.reads, ...cmd.writes].some(arg => /^\/dev\/(tcp|udp)\//.test(arg))) return true;
+
+  if (SHELLS.has(name) && cmd.pipedFrom && netcat(cmd.pipedFrom.name)) return true;
+  if (netcat(name) && cmd.pipedFrom && SHELLS.has(cmd.pipedFrom.name)) return true;
+  return false;
+}
+
+/**
+ * Whether an earlier `chmod` on the same line made this command's program executable
+ */
+function isMadeExecutable(cmd: ShellCommand, previous: ShellCommand[]): boolean {
+  const target = SHELLS.has(cmd.name) ? cmd.args.find(arg => !arg.startsWith('-')) : cmd.name;
+  if (!target) return false;
+  const targetName = target.slice(target.lastIndexOf('/') + 1);
+
+  return previous.some(prev => {
+    if (prev.name !== 'chmod') return false;
+    const [mode, ...files] = prev.args.filter(arg => !arg.startsWith('-'));
+    const executable = /^[ugoa]*\+[rwxXst]*[xX]/.test(mode || '') ||
+      (/^[0-7]{3,4}$/.test(mode || '') && /[1357]/.test(mode.slice(-3)));
+    return executable && files.some(file => file.slice(file.lastIndexOf('/') + 1) === targetName);
+  });
+}
+
+function isArchiveExtract(name: string, args: string[]): boolean {
+  if (name === 'tar' || name === 'bsdtar') {
+    return args.includes('--extract') || /^-?[a-wyz]*x/i.test(args[0] || '');
+  }
+  if (name === 'unzip') return !args.includes('-l');
+  if (name === 'gunzip' || name === 'bunzip2' || name === 'unxz' || name === 'unzstd') return true;
+  if (name === 'gzip' || name === 'xz' || name === 'bzip2' || name === 'zstd') return args.includes('-d');
+  if (name === '7z' || name === '7za' || name === 'unrar') return args[0] === 'x' || args[0] === 'e';
+  return false;
+}
+
+function isPublish(name: string, operands: string[]): boolean {
+  const subcommand = operands[0];
+  return (name === 'twine' && subcommand === 'upload') ||
+    ((name === 'cargo' || name === 'poetry' || name === 'flit') && subcommand === 'publish') ||
+    (name === 'gem' && subcommand === 'push');
+}
+
+function isBrowserTool(toolName: string): boolean {
+  return toolName.toLowerCase().includes('browser');
+}
+
+/**
+ * Patterns for a browser tool call with structured arguments
+ * Uploads of credential files also count as credential reads.
+ */
+function classifyBrowserAction(action: BrowserAction, paths: PathContext): CommandPattern[] {
+  switch (action.kind) {
+    case 'navigate':
+      return ['browser_navigate'];
+    case 'click':
+      return ['browser_click'];
+    case 'fill': {
+      const patterns: CommandPattern[] = [];
+      if (action.sensitiveFields.includes('password')) patterns.push('browser_credential_fill');
+      if (action.sensitiveFields.includes('payment')) patterns.push('browser_payment_fill');
+      return patterns.length > 0 ? patterns : ['browser_form_fill'];
+    }
+    case 'upload': {
+      const reads = action.files.map(file => classifyFileRead(file, paths));
+      return ['browser_upload', ...reads.filter(pattern => pattern === 'file_read_credential')];
     }
+    case 'download':
+      return ['browser_download'];
+    case 'evaluate':
+      return ['browser_evaluate'];
+    case 'screenshot':
+      return ['browser_screenshot'];
+    default:
+      return action.url ? ['browser_navigate'] : ['unknown'];
+  }
+}
 
-    // Process spawning
-    if (lowerCommand.includes('spawn') || lowerCommand.includes('exec') || lowerCommand.includes('&')) {
-      return 'process_spawn';
+/**
+ * Pattern for a non-shell tool
+ */
+function classifyTool(toolName: string, fullCommand: string, paths: PathContext): CommandPattern {
+  const lowerCommand = fullCommand.toLowerCase();
+  const lowerToolName = toolName.toLowerCase();
+
+  // Browser operations
+  if (isBrowserTool(toolName)) {
+    if (lowerCommand.includes('navigate') || lowerCommand.includes('goto') || lowerCommand.includes('url')) {
+      return 'browser_navigate';
     }
+    if (lowerCommand.includes('fill') || lowerCommand.includes('type') || lowerCommand.includes('input')) {
+      return 'browser_form_fill';
+    }
+    return 'browser_navigate';
   }
 
   // File operations
   if (lowerToolName === 'read' || lowerToolName === 'file_read') {
-    return classifyFileRead(fullCommand);
+    return classifyFileRead(fullCommand, paths);
   }
 
   if (lowerToolName === 'write' || lowerToolName === 'file_write') {
@@ -122,60 +526,61 @@ export function classifyCommand(context: ToolContext): CommandPattern {
     return 'file_delete';
   }
 
+  // Fetch tools (web_fetch, http_request, ...) called with a URL
+  const targets = extractTargets(fullCommand);
+  if (targets.length > 0) {
+    return targets.every(target => target.isInternal) ? 'curl_internal' : 'curl_external';
+  }
+
   return 'unknown';
 }
 
 /**
  * Classify a file read operation based on the path
+ * The path is expanded and normalized first, and checked again after
+ * following symlinks so a link can't hide a credential file.
  */
-function classifyFileRead(pathOrCommand: string): CommandPattern {
-  const path = pathOrCommand.toLowerCase();
-
-  // Check for credential paths
-  for (const credPath of CREDENTIAL_PATHS) {
-    if (path.includes(credPath.toLowerCase())) {
-      return 'file_read_credential';
-    }
+function classifyFileRead(rawPath: string, paths: PathContext): CommandPattern {
+  const normalized = normalizePath(rawPath, paths.cwd);
+  const candidates = [normalized];
+  if (paths.resolveSymlinks) {
+    const real = resolveSymlinks(normalized);
+    if (real !== normalized) candidates.push(real);
   }
 
-  // Check for config paths
-  for (const configPath of CONFIG_PATHS) {
-    if (path.includes(configPath.toLowerCase())) {
-      return 'file_read_config';
-    }
+  if (candidates.some(path => CREDENTIAL_GLOBS.some(glob => glob.test(path)))) {
+    return 'file_read_credential';
+  }
+  if (candidates.some(path => CONFIG_GLOBS.some(glob => glob.test(path)))) {
+    return 'file_read_config';
   }
 
-  // Home directory
-  if (path.includes('~') || path.includes('/home/') || path.includes('/users/')) {
+  const target = candidates[candidates.length - 1];
+  const workspace = paths.workspace ? normalizePath(paths.workspace) : DEFAULT_WORKSPACE;
+  if (!posix.isAbsolute(target) || isInside(target, workspace)) {
+    return 'file_read_workspace';
+  }
+  if (isInside(target, homedir())) {
     return 'file_read_home';
   }
-
-  return 'file_read_home';
+  return 'file_read_system';
 }
 
 /**
  * Extract domain from a command string
+ * Returns the registrable domain (eTLD+1) of the first external target, or
+ * its IP / host name when it has none.
  */
 export function extractDomain(command: string): string | undefined {
-  // Try to find URLs in the command
-  const urlMatch = command.match(/https?:\/\/([^\/\s:]+)/i);
-  if (urlMatch) {
-    return urlMatch[1];
-  }
-
-  // Try to find host patterns like user@host
-  const sshMatch = command.match(/@([^:\s\/]+)/);
-  if (sshMatch) {
-    return sshMatch[1];
-  }
-
-  return undefined;
+  const targets = extractTargets(command);
+  const target = targets.find(t => !t.isInternal) || targets[0];
+  return target && (target.domain || target.host);
 }
 
 /**
  * Check if a file path is a credential path
  */
 export function isCredentialPath(path: string): boolean {
-  const lowerPath = path.toLowerCase();
-  return CREDENTIAL_PATHS.some(credPath => lowerPath.includes(credPath.toLowerCase()));
+  const normalized = normalizePath(path);
+  return CREDENTIAL_GLOBS.some(glob => glob.test(normalized));
 }
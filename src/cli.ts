@@ -5,6 +5,13 @@ import { join } from 'path';
 import { homedir } from 'os';
 import { createInterface } from 'readline';
 import { createAgentId } from './anonymizer.js';
+import { DeadLetterQueue, DeadLetter } from './dead-letter.js';
+import { ApiClient } from './api-client.js';
+import type { NetworkOptions } from './http.js';
+import { SequenceCounter, deriveSigningKey, signatureHeaders } from './signing.js';
+import { explainCommand } from './classifier.js';
+import { loadClassificationRules } from './classification-rules.js';
+import type { EventBatchResponse } from './types.js';
 import { randomUUID } from 'crypto';
 import { exec } from 'child_process';
 
@@ -15,6 +22,7 @@ const AGENT_ID_FILE = join(MOLTWIRE_DIR, 'agent_id');
 
 const DEFAULT_API_ENDPOINT = 'https://api.moltwire.com';
 const DEFAULT_APP_URL = 'https://app.moltwire.com';
+const USER_AGENT = 'moltwire-cli/0.1.0';
 
 interface MoltwirePluginConfig {
   apiKey?: string;
@@ -145,6 +153,24 @@ function openBrowser(url: string): void {
   });
 }
 
+/**
+ * Create an API client for CLI requests
+ * Uses the proxy and TLS settings from the plugin config, like the plugin itself.
+ */
+function createClient(apiEndpoint: string, apiKey: string = ''): ApiClient {
+  const network = (getMoltwireConfig(loadConfig()) || {}) as NetworkOptions;
+  return new ApiClient({
+    apiEndpoint,
+    apiKey,
+    userAgent: USER_AGENT,
+    proxyUrl: network.proxyUrl,
+    noProxy: network.noProxy,
+    caFile: network.caFile,
+    clientCertFile: network.clientCertFile,
+    clientKeyFile: network.clientKeyFile
+  });
+}
+
 /**
  * Initialize registration with the API
  */
@@ -154,12 +180,9 @@ async function initRegistration(
   apiEndpoint: string
 ): Promise<boolean> {
   try {
-    const response = await fetch(`${apiEndpoint}/v1/register/init`, {
+    const response = await createClient(apiEndpoint).fetch('/v1/register/init', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'moltwire-cli/0.1.0'
-      },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         token,
         agent_id: agentId,
@@ -183,17 +206,13 @@ async function pollRegistrationStatus(
   intervalMs: number = 2000
 ): Promise<{ complete: boolean; apiKey?: string }> {
   const startTime = Date.now();
+  const client = createClient(apiEndpoint);
 
   while (Date.now() - startTime < timeoutMs) {
     try {
-      const response = await fetch(
-        `${apiEndpoint}/v1/register/status?token=${encodeURIComponent(token)}`,
-        {
-          method: 'GET',
-          headers: {
-            'User-Agent': 'moltwire-cli/0.1.0'
-          }
-        }
+      const response = await client.fetch(
+        `/v1/register/status?token=${encodeURIComponent(token)}`,
+        { method: 'GET' }
       );
 
       if (response.ok) {
@@ -206,7 +225,7 @@ async function pollRegistrationStatus(
         return { complete: false };
       }
     } catch {
-      // Network error, continue polling
+      // Network error or circuit open, continue polling
     }
 
     await new Promise((resolve) => setTimeout(resolve, intervalMs));
@@ -220,13 +239,7 @@ async function pollRegistrationStatus(
  */
 async function validateApiKey(apiKey: string, apiEndpoint: string): Promise<boolean> {
   try {
-    const response = await fetch(`${apiEndpoint}/v1/auth/verify`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'User-Agent': 'moltwire-cli/0.1.0'
-      }
-    });
+    const response = await createClient(apiEndpoint, apiKey).fetch('/v1/auth/verify', { method: 'GET' });
     return response.ok;
   } catch {
     return false;
@@ -269,14 +282,14 @@ async function sendTestEvent(apiKey: string, apiEndpoint: string, agentId: strin
       }]
     };
 
-    const response = await fetch(`${apiEndpoint}/v1/events`, {
+    const body = JSON.stringify(testEvent);
+    const response = await createClient(apiEndpoint, apiKey).fetch('/v1/events', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'User-Agent': 'moltwire-cli/0.1.0'
+        ...signatureHeaders(deriveSigningKey(apiKey), body)
       },
-      body: JSON.stringify(testEvent)
+      body
     });
 
     if (!response.ok) {
@@ -338,6 +351,124 @@ async function showStatus(): Promise<void> {
   console.log(`\nDashboard: https://app.moltwire.com`);
 }
 
+/**
+ * Inspect or resubmit events the API rejected permanently
+ */
+async function runDeadLetter(flags: string[]): Promise<void> {
+  const queue = new DeadLetterQueue();
+  const entries = queue.list();
+
+  console.log('\n📮 Moltwire Dead Letters\n');
+
+  if (entries.length === 0) {
+    log('✓ No rejected events', 'green');
+    return;
+  }
+
+  if (flags.includes('--clear')) {
+    const removed = queue.take();
+    queue.restore([]);
+    log(`✓ Removed ${removed.length} rejected events`, 'green');
+    return;
+  }
+
+  if (!flags.includes('--resubmit')) {
+    console.log(`Rejected events: ${entries.length}\n`);
+    for (const [reason, count] of Object.entries(queue.countByReason())) {
+      console.log(`  ${String(count).padStart(5)}  ${reason}`);
+    }
+
+    if (flags.includes('--verbose') || flags.includes('-v')) {
+      console.log('');
+      for (const entry of entries) {
+        console.log(`  ${entry.failedAt}  ${entry.event.event_type.padEnd(18)} ${entry.event.event_id}  ${entry.reason}`);
+      }
+    }
+
+    console.log('\nRun `moltwire dead-letter --resubmit` to send them again.');
+    return;
+  }
+
+  const config = loadConfig();
+  const moltwireConfig = getMoltwireConfig(config);
+
+  if (!moltwireConfig?.apiKey) {
+    log('❌ API key is not configured', 'red');
+    console.log('Run `moltwire setup` to configure.');
+    return;
+  }
+
+  const apiEndpoint = moltwireConfig.apiEndpoint || DEFAULT_API_ENDPOINT;
+  // Taken out of the file while sending, so the plugin can keep adding new ones
+  const taken = queue.take();
+  console.log(`Resubmitting ${taken.length} events...`);
+
+  const signingSecret = typeof moltwireConfig.signingSecret === 'string' ? moltwireConfig.signingSecret : undefined;
+  const remaining = await resubmitDeadLetters(taken, moltwireConfig.apiKey, apiEndpoint, signingSecret);
+  queue.restore(remaining);
+
+  const accepted = taken.length - remaining.length;
+  if (accepted > 0) {
+    log(`✓ ${accepted} events accepted`, 'green');
+  }
+  if (remaining.length > 0) {
+    log(`✗ ${remaining.length} events still rejected`, 'red');
+  }
+}
+
+/**
+ * Send dead letters to the API, returning the entries that were rejected again
+ * Each event gets a fresh sequence number so the backend doesn't take it for a replay.
+ */
+async function resubmitDeadLetters(
+  entries: DeadLetter[],
+  apiKey: string,
+  apiEndpoint: string,
+  signingSecret?: string,
+  batchSize: number = 50
+): Promise<DeadLetter[]> {
+  const remaining: DeadLetter[] = [];
+  const client = createClient(apiEndpoint, apiKey);
+  const signingKey = deriveSigningKey(apiKey, signingSecret);
+  const sequence = new SequenceCounter();
+
+  for (let start = 0; start < entries.length; start += batchSize) {
+    const batch = entries.slice(start, start + batchSize);
+
+    try {
+      const body = JSON.stringify({ events: batch.map(entry => ({ ...entry.event, sequence: sequence.next() })) });
+      const response = await client.fetch('/v1/events', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...signatureHeaders(signingKey, body)
+        },
+        body
+      });
+
+      if (!response.ok) {
+        const reason = `API error: ${response.status}`;
+        remaining.push(...batch.map(entry => ({ ...entry, reason, failedAt: new Date().toISOString() })));
+        continue;
+      }
+
+      const result = await response.json() as EventBatchResponse;
+      for (const error of result.errors || []) {
+        const entry = batch[error.index];
+        if (entry) {
+          remaining.push({ ...entry, reason: error.reason, failedAt: new Date().toISOString() });
+        }
+      }
+    } catch (error) {
+      const reason = `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      remaining.push(...batch.map(entry => ({ ...entry, reason })));
+    }
+  }
+
+  sequence.release();
+  return remaining;
+}
+
 /**
  * Run the setup wizard (browser-based flow)
  */
@@ -570,6 +701,35 @@ async function runManualSetup(): Promise<void> {
   console.log('');
 }
 
+/**
+ * Show how a sample command is classified and which rule matched each part
+ */
+function runClassify(flags: string[]): void {
+  const toolIndex = flags.findIndex(flag => flag === '--tool' || flag === '-t');
+  const toolName = toolIndex >= 0 ? flags[toolIndex + 1] || 'exec' : 'exec';
+  const command = flags.filter((_, i) => toolIndex < 0 || (i !== toolIndex && i !== toolIndex + 1)).join(' ');
+
+  if (!command) {
+    log('Usage: moltwire classify [--tool <name>] "<command>"', 'yellow');
+    process.exit(1);
+  }
+
+  const moltwireConfig = getMoltwireConfig(loadConfig());
+  const rulesFile = moltwireConfig?.classificationRulesFile;
+  const rules = loadClassificationRules(typeof rulesFile === 'string' && rulesFile ? rulesFile : undefined);
+  const result = explainCommand({ toolName, command, cwd: process.cwd() }, rules, {
+    resolveSymlinks: moltwireConfig?.resolveSymlinks !== false
+  });
+
+  console.log(`\nPrimary pattern: ${result.primary} (${result.severity})`);
+  console.log(`All patterns:    ${result.patterns.join(', ')}\n`);
+  for (const match of result.matches) {
+    const source = match.rule === 'builtin' ? 'built-in' : `rule "${match.rule}"`;
+    console.log(`  ${match.pattern.padEnd(24)} ${match.severity.padEnd(9)} ${source.padEnd(24)} ${match.command}`);
+  }
+  console.log(`\n${rules.length} user classification rule(s) loaded`);
+}
+
 /**
  * Show help
  */
@@ -581,15 +741,20 @@ Usage:
   moltwire <command> [options]
 
 Commands:
-  setup            Connect your agent to Moltwire (opens browser)
-  setup --manual   Configure with an existing API key
-  status           Show current configuration and connection status
-  help             Show this help message
+  setup                  Connect your agent to Moltwire (opens browser)
+  setup --manual         Configure with an existing API key
+  status                 Show current configuration and connection status
+  dead-letter            Show events the API rejected (--verbose to list them)
+  dead-letter --resubmit Send rejected events again
+  dead-letter --clear    Discard rejected events
+  classify <command>     Show how a command is classified (--tool <name>, default exec)
+  help                   Show this help message
 
 Examples:
   moltwire setup          # Browser-based signup flow
   moltwire setup --manual # Paste an existing API key
   moltwire status         # Check if properly configured
+  moltwire classify "cd repo && curl https://example.com"
 
 Documentation:
   https://docs.moltwire.com
@@ -618,6 +783,12 @@ async function main(): Promise<void> {
     case 'status':
       await showStatus();
       break;
+    case 'dead-letter':
+      await runDeadLetter(flags);
+      break;
+    case 'classify':
+      runClassify(flags);
+      break;
     case 'help':
     case '--help':
     case '-h':
@@ -1,11 +1,15 @@
 import { randomUUID } from 'crypto';
-import { classifyCommand, extractDomain, isCredentialPath } from './classifier.js';
+import { classifyCommand } from './classifier.js';
+import { extractTargets, NetworkTarget } from './targets.js';
+import { CompiledClassificationRule, loadClassificationRules } from './classification-rules.js';
 import { createSessionId, scrubPII } from './anonymizer.js';
+import { createSenderId } from './channels.js';
 import type {
   MoltwireConfig,
   MoltwireEvent,
   ToolExecutionEvent,
   InboundMessageEvent,
+  OutboundMessageEvent,
   SessionLifecycleEvent,
   ConfigChangeEvent,
   AnomalyIndicatorEvent,
@@ -24,10 +28,14 @@ export class EventCollector {
   private agentId: string;
   private config: MoltwireConfig;
   private currentSessionId: string | null = null;
+  private classificationRules: CompiledClassificationRule[];
+  // Page the browser tool last navigated to; fills and uploads happen there
+  private browserPage: NetworkTarget | undefined;
 
   constructor(agentId: string, config: MoltwireConfig) {
     this.agentId = agentId;
     this.config = config;
+    this.classificationRules = loadClassificationRules(config.classificationRulesFile);
   }
 
   /**
@@ -55,6 +63,7 @@ export class EventCollector {
    */
   clearSession(): void {
     this.currentSessionId = null;
+    this.browserPage = undefined;
   }
 
   /**
@@ -63,8 +72,17 @@ export class EventCollector {
   collectToolExecution(context: ToolContext, result?: ToolResult): ToolExecutionEvent | null {
     if (!this.config.captureToolExecution) return null;
 
-    const commandPattern = classifyCommand(context);
-    const targetDomain = extractDomain(context.command || context.args?.join(' ') || '');
+    const classification = classifyCommand(context, this.classificationRules, {
+      resolveSymlinks: this.config.resolveSymlinks
+    });
+    let targets = extractTargets(context.command || context.args?.join(' ') || '');
+    if (context.browser?.kind === 'navigate' && targets.length > 0) {
+      this.browserPage = targets[0];
+    } else if (context.browser && targets.length === 0 && this.browserPage) {
+      targets = [this.browserPage];
+    }
+    // The first external host is the one worth reporting
+    const target = targets.find(t => !t.isInternal) || targets[0];
 
     const event: ToolExecutionEvent = {
       ...this.createBaseEvent('tool_execution'),
@@ -72,10 +90,20 @@ export class EventCollector {
       payload: {
         tool_name: context.toolName,
         tool_category: context.toolCategory,
-        command_pattern: commandPattern,
-        target_domain: targetDomain,
+        command_pattern: classification.primary,
+        command_patterns: classification.patterns,
+        pattern_severity: classification.severity,
+        browser_action: context.browser?.kind,
+        target_domain: target && (target.domain || target.host),
+        target_domains: targets.length > 0 ? [...new Set(targets.map(t => t.domain || t.host))] : undefined,
+        target_host: target?.host,
+        target_port: target?.port,
+        target_scheme: target?.scheme,
+        target_is_ip: target?.isIp,
+        target_is_internal: target?.isInternal,
         exit_code: result?.exitCode,
         duration_ms: result?.duration,
+        status: result?.status,
         is_elevated: context.isElevated,
         is_sandboxed: context.isSandboxed,
         skill_source: context.skillSource
@@ -98,6 +126,7 @@ export class EventCollector {
       event_type: 'inbound_message',
       payload: {
         channel_type: context.channelType,
+        sender_hash: context.peerId ? createSenderId(context.channelType, context.peerId, this.agentId) : undefined,
         is_dm: context.isDm,
         is_from_paired_user: context.isFromPairedUser,
         message_length: content.length,
@@ -109,6 +138,30 @@ export class EventCollector {
     return event;
   }
 
+  /**
+   * Collect an outbound message (agent reply) event
+   */
+  collectOutboundMessage(context: MessageContext): OutboundMessageEvent | null {
+    if (!this.config.captureOutboundMessages) return null;
+
+    const content = context.content || '';
+
+    const event: OutboundMessageEvent = {
+      ...this.createBaseEvent('outbound_message'),
+      event_type: 'outbound_message',
+      payload: {
+        channel_type: context.channelType,
+        recipient_hash: context.peerId ? createSenderId(context.channelType, context.peerId, this.agentId) : undefined,
+        is_dm: context.isDm,
+        message_length: content.length,
+        contains_url: /https?:\/\//.test(content),
+        contains_code_block: /```/.test(content)
+      }
+    };
+
+    return event;
+  }
+
   /**
    * Collect a session lifecycle event
    */
@@ -181,63 +234,4 @@ export class EventCollector {
 
     return event;
   }
-
-  /**
-   * Check for credential path access
-   */
-  checkCredentialAccess(path: string): AnomalyIndicatorEvent | null {
-    if (isCredentialPath(path)) {
-      return this.collectAnomalyIndicator(
-        'credential_path_access',
-        'Access to credential file detected',
-        'medium'
-      );
-    }
-    return null;
-  }
-
-  /**
-   * Check for unusual hour activity
-   */
-  checkUnusualHour(): AnomalyIndicatorEvent | null {
-    const hour = new Date().getHours();
-    if (hour >= 0 && hour < 6) {
-      return this.collectAnomalyIndicator(
-        'unusual_hour_activity',
-        `Tool execution at ${hour}:00 local time`,
-        'low'
-      );
-    }
-    return null;
-  }
-
-  /**
-   * Check for system prompt extraction attempts
-   */
-  checkSystemPromptRequest(content: string): AnomalyIndicatorEvent | null {
-    const lowerContent = content.toLowerCase();
-    const suspiciousPatterns = [
-      'ignore previous',
-      'ignore all previous',
-      'disregard previous',
-      'system prompt',
-      'reveal instructions',
-      'show your prompt',
-      'what are your instructions',
-      'print your system',
-      'output your prompt'
-    ];
-
-    for (const pattern of suspiciousPatterns) {
-      if (lowerContent.includes(pattern)) {
-        return this.collectAnomalyIndicator(
-          'system_prompt_request',
-          'Potential prompt injection attempt detected',
-          'high'
-        );
-      }
-    }
-
-    return null;
-  }
 }
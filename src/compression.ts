@@ -0,0 +1,64 @@
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+
+export type Compression = 'zstd' | 'gzip' | 'none';
+
+// Preferred order when falling back after the server rejects an encoding
+const FALLBACK_ORDER: Compression[] = ['zstd', 'gzip', 'none'];
+
+const gzip = promisify(zlib.gzip);
+
+/**
+ * Whether this Node runtime can produce the given encoding
+ * zstd is only available in newer Node releases (>= 22.15)
+ */
+export function isCompressionSupported(encoding: Compression): boolean {
+  if (encoding === 'zstd') {
+    return typeof zlib.zstdCompress === 'function';
+  }
+  return true;
+}
+
+/**
+ * Pick the encoding to start with, downgrading zstd when the runtime lacks it
+ */
+export function initialCompression(preferred: Compression): Compression {
+  return isCompressionSupported(preferred) ? preferred : 'gzip';
+}
+
+/**
+ * Compress a request body
+ */
+export async function compress(body: string, encoding: Compression): Promise<Buffer | string> {
+  switch (encoding) {
+    case 'zstd':
+      return promisify(zlib.zstdCompress)(body);
+    case 'gzip':
+      return gzip(body);
+    default:
+      return body;
+  }
+}
+
+/**
+ * Choose the next encoding after the server rejected `current` with 415
+ * Honors the response's Accept-Encoding header (RFC 7694) when present,
+ * otherwise steps down zstd -> gzip -> none.
+ */
+export function fallbackCompression(current: Compression, acceptEncoding: string | null): Compression {
+  const candidates = FALLBACK_ORDER.slice(FALLBACK_ORDER.indexOf(current) + 1);
+
+  if (acceptEncoding !== null) {
+    const accepted = acceptEncoding
+      .split(',')
+      .map(part => part.split(';')[0].trim().toLowerCase())
+      .filter(Boolean);
+
+    const match = candidates.find(
+      encoding => encoding !== 'none' && accepted.includes(encoding) && isCompressionSupported(encoding)
+    );
+    return match || 'none';
+  }
+
+  return candidates.find(isCompressionSupported) || 'none';
+}
@@ -1,9 +1,11 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
+import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { randomUUID } from 'crypto';
 import { createAgentId } from './anonymizer.js';
-import type { MoltwireConfig } from './types.js';
+import { validateNetworkOptions } from './http.js';
+import type { MoltwireConfig, SinkConfig } from './types.js';
+import { logger } from './logger.js';
 
 const MOLTWIRE_DIR = join(homedir(), '.openclaw', 'moltwire');
 const AGENT_ID_FILE = join(MOLTWIRE_DIR, 'agent_id');
@@ -17,15 +19,39 @@ const DEFAULT_CONFIG: MoltwireConfig = {
   enabled: true,
   apiKey: '',
   apiEndpoint: 'https://api.moltwire.com',
+  signingSecret: '',
   flushIntervalSeconds: 30,
   flushBatchSize: 50,
+  flushBatchBytes: 512 * 1024,
+  compression: 'gzip',
+  bufferMaxBytes: 10 * 1024 * 1024,
+  bufferMaxAgeHours: 72,
+  maxBackoffSeconds: 600,
+  offline: false,
+  proxyUrl: '',
+  noProxy: [],
+  caFile: '',
+  clientCertFile: '',
+  clientKeyFile: '',
   redactPatterns: true,
   localAnomalyDetection: true,
+  anomalyRulesFile: '',
+  classificationRulesFile: '',
+  resolveSymlinks: true,
+  trustedSkillSources: ['bundled', 'clawhub'],
+  logPath: '',
+  logBackfillMinutes: 15,
+  logParsersModule: '',
+  channelMappings: {},
   captureToolExecution: true,
   captureInboundMessages: true,
+  captureOutboundMessages: true,
   captureSessionLifecycle: true,
   captureConfigChanges: true,
-  debug: false
+  sinks: [],
+  debug: false,
+  logFormat: 'text',
+  logFile: ''
 };
 
 /**
@@ -67,7 +93,7 @@ export function saveApiKey(apiKey: string): void {
     }
     writeFileSync(API_KEY_FILE, apiKey, 'utf-8');
   } catch (error) {
-    console.error('[Moltwire] Failed to save API key:', error);
+    logger.error('Failed to save API key', { error });
   }
 }
 
@@ -81,7 +107,7 @@ export function savePendingToken(token: string): void {
     }
     writeFileSync(PENDING_TOKEN_FILE, token, 'utf-8');
   } catch (error) {
-    console.error('[Moltwire] Failed to save pending token:', error);
+    logger.error('Failed to save pending token', { error });
   }
 }
 
@@ -120,18 +146,9 @@ export function loadConfig(userConfig: Partial<MoltwireConfig>): MoltwireConfig
   const fileConfig = loadConfigFromFile();
   const fileApiKey = loadApiKeyFromFile();
 
-  // Debug logging
-  console.log('[Moltwire] loadConfig debug:', {
-    userConfigApiKey: userConfig.apiKey,
-    fileApiKey: fileApiKey ? fileApiKey.slice(0, 12) + '...' : 'none',
-    fileConfigApiKey: fileConfig.apiKey ? fileConfig.apiKey.slice(0, 12) + '...' : 'none',
-  });
-
   // Determine API key priority: userConfig > api-key file > config.json > default
   const apiKey = userConfig.apiKey || fileApiKey || fileConfig.apiKey || DEFAULT_CONFIG.apiKey;
 
-  console.log('[Moltwire] Final apiKey:', apiKey ? apiKey.slice(0, 12) + '...' : 'none');
-
   return {
     ...DEFAULT_CONFIG,
     ...fileConfig,
@@ -157,10 +174,54 @@ export function validateConfig(config: MoltwireConfig): { valid: boolean; errors
     errors.push('flushIntervalSeconds must be at least 5');
   }
 
-  if (config.flushBatchSize < 1 || config.flushBatchSize > 100) {
-    errors.push('flushBatchSize must be between 1 and 100');
+  if (config.flushBatchSize < 1 || config.flushBatchSize > 1000) {
+    errors.push('flushBatchSize must be between 1 and 1000');
+  }
+
+  if (config.flushBatchBytes < 1024 || config.flushBatchBytes > 5 * 1024 * 1024) {
+    errors.push('flushBatchBytes must be between 1024 and 5242880');
+  }
+
+  if (!['zstd', 'gzip', 'none'].includes(config.compression)) {
+    errors.push('compression must be one of "zstd", "gzip" or "none"');
+  }
+
+  if (config.bufferMaxBytes < 64 * 1024) {
+    errors.push('bufferMaxBytes must be at least 65536');
+  }
+
+  if (config.bufferMaxAgeHours <= 0) {
+    errors.push('bufferMaxAgeHours must be greater than 0');
+  }
+
+  if (config.maxBackoffSeconds < 5) {
+    errors.push('maxBackoffSeconds must be at least 5');
+  }
+
+  if (config.logPath && /[*?]/.test(dirname(config.logPath))) {
+    errors.push('logPath may only use wildcards in the file name');
   }
 
+  if (config.logBackfillMinutes < 0) {
+    errors.push('logBackfillMinutes must be 0 or more');
+  }
+
+  if (!Array.isArray(config.trustedSkillSources)) {
+    errors.push('trustedSkillSources must be an array of source names');
+  }
+
+  if (!['text', 'json'].includes(config.logFormat)) {
+    errors.push('logFormat must be "text" or "json"');
+  }
+
+  if (!config.channelMappings || typeof config.channelMappings !== 'object' || Array.isArray(config.channelMappings) ||
+      Object.values(config.channelMappings).some(v => typeof v !== 'string')) {
+    errors.push('channelMappings must map subsystem names to channel names');
+  }
+
+  errors.push(...validateNetworkOptions(config));
+  errors.push(...validateSinks(config.sinks));
+
   return {
     valid: errors.length === 0,
     errors,
@@ -168,6 +229,58 @@ export function validateConfig(config: MoltwireConfig): { valid: boolean; errors
   };
 }
 
+/**
+ * Validate the sinks array
+ */
+function validateSinks(sinks: SinkConfig[]): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(sinks)) {
+    return ['sinks must be an array'];
+  }
+
+  const names = new Set<string>();
+
+  sinks.forEach((sink, index) => {
+    const label = `sinks[${index}]`;
+    const name = sink.name || `${sink.type}-${index + 1}`;
+
+    if (names.has(name)) {
+      errors.push(`${label}: duplicate sink name "${name}"`);
+    }
+    names.add(name);
+
+    switch (sink.type) {
+      case 'file':
+        if (!sink.path) errors.push(`${label}: file sink requires "path"`);
+        break;
+      case 'webhook':
+        if (!sink.url || !sink.url.startsWith('https://')) {
+          errors.push(`${label}: webhook sink requires an https:// "url"`);
+        }
+        break;
+      case 'syslog':
+        if (!sink.host) errors.push(`${label}: syslog sink requires "host"`);
+        if (sink.protocol && sink.protocol !== 'udp' && sink.protocol !== 'tcp') {
+          errors.push(`${label}: syslog protocol must be "udp" or "tcp"`);
+        }
+        if (sink.facility !== undefined && (sink.facility < 0 || sink.facility > 23)) {
+          errors.push(`${label}: syslog facility must be between 0 and 23`);
+        }
+        break;
+      case 'otlp':
+        if (!sink.endpoint || !/^https?:\/\//.test(sink.endpoint)) {
+          errors.push(`${label}: otlp sink requires an http(s) "endpoint"`);
+        }
+        break;
+      default:
+        errors.push(`${label}: unknown sink type "${(sink as { type: string }).type}"`);
+    }
+  });
+
+  return errors;
+}
+
 /**
  * Get or create the agent ID
  * The raw UUID is stored locally and never sent to the server
@@ -195,20 +308,13 @@ export function getOrCreateAgentId(): string {
  * Local state management (for anomaly detection)
  */
 export interface LocalState {
-  seenDomains: string[];
-  lastToolExecutionTime: number;
-  toolExecutionCount: number;
-  lastFileReadTime: number;
-  fileReadCount: number;
+  // First-seen values remembered by anomaly rules, keyed by field
+  seenValues: Record<string, string[]>;
   lastFlushTime: number;
 }
 
 const DEFAULT_STATE: LocalState = {
-  seenDomains: [],
-  lastToolExecutionTime: 0,
-  toolExecutionCount: 0,
-  lastFileReadTime: 0,
-  fileReadCount: 0,
+  seenValues: {},
   lastFlushTime: 0
 };
 
@@ -218,8 +324,13 @@ const DEFAULT_STATE: LocalState = {
 export function loadLocalState(): LocalState {
   try {
     if (existsSync(STATE_FILE)) {
-      const data = readFileSync(STATE_FILE, 'utf-8');
-      return { ...DEFAULT_STATE, ...JSON.parse(data) };
+      const { seenDomains, ...data } = JSON.parse(readFileSync(STATE_FILE, 'utf-8'));
+      const state: LocalState = { ...DEFAULT_STATE, ...data };
+      // State files from before anomaly rules kept domains in their own list
+      if (Array.isArray(seenDomains) && !state.seenValues['payload.target_domain']) {
+        state.seenValues = { ...state.seenValues, 'payload.target_domain': seenDomains };
+      }
+      return state;
     }
   } catch {
     // Return default state on error
@@ -237,6 +348,6 @@ export function saveLocalState(state: LocalState): void {
     }
     writeFileSync(STATE_FILE, JSON.stringify(state, null, 2), 'utf-8');
   } catch (error) {
-    console.error('[Moltwire] Failed to save local state:', error);
+    logger.error('Failed to save local state', { error });
   }
 }
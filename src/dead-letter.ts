@@ -0,0 +1,228 @@
+import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync, renameSync, unlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import type { MoltwireEvent, EventBatchResponse } from './types.js';
+import { logger } from './logger.js';
+
+const DEAD_LETTER_FILE = join(homedir(), '.openclaw', 'moltwire', 'dead_letter.jsonl');
+
+// Oldest entries are discarded beyond this
+const MAX_DEAD_LETTERS = 1000;
+
+// Transient per-event rejections are retried this many times before dead-lettering
+const MAX_EVENT_ATTEMPTS = 5;
+
+// Rejection reasons that indicate the server may accept the event later
+const TRANSIENT_REASONS = [
+  'rate limit',
+  'rate-limit',
+  'throttl',
+  'timeout',
+  'timed out',
+  'temporar',
+  'unavailable',
+  'try again',
+  'retry'
+];
+
+export interface DeadLetter {
+  event: MoltwireEvent;
+  reason: string;
+  failedAt: string;
+}
+
+/**
+ * Whether a per-event rejection reason from the API is worth retrying
+ */
+export function isTransientRejection(reason: string): boolean {
+  const lowerReason = reason.toLowerCase();
+  return TRANSIENT_REASONS.some(pattern => lowerReason.includes(pattern));
+}
+
+/**
+ * Local store for events the API rejected permanently
+ * Kept as JSONL so it can be inspected and resubmitted with `moltwire dead-letter`.
+ */
+export class DeadLetterQueue {
+  private filepath: string;
+  private count: number;
+  // Transient rejections seen so far, by event ID
+  private attempts: Map<string, number> = new Map();
+
+  constructor(filepath = DEAD_LETTER_FILE) {
+    this.filepath = filepath;
+    this.count = this.list().length;
+  }
+
+  /**
+   * Record a rejected event with the server's reason
+   */
+  add(event: MoltwireEvent, reason: string): void {
+    const entry: DeadLetter = { event, reason, failedAt: new Date().toISOString() };
+
+    try {
+      this.append([entry]);
+      this.count++;
+    } catch (error) {
+      logger.error('Failed to write dead letter', { error });
+      return;
+    }
+
+    if (this.count > MAX_DEAD_LETTERS) {
+      this.replace(this.list().slice(-MAX_DEAD_LETTERS));
+    }
+  }
+
+  /**
+   * Map per-event errors from a batch response back to the batch
+   * Returns the events that are finished with: accepted, or dead-lettered
+   * because the rejection is permanent or retries were exhausted. The rest
+   * were rejected transiently and should be sent again.
+   */
+  settleBatch(events: MoltwireEvent[], result: EventBatchResponse): MoltwireEvent[] {
+    const reasons = new Map<number, string>();
+    for (const error of result.errors || []) {
+      if (error.index >= 0 && error.index < events.length) {
+        reasons.set(error.index, error.reason);
+      }
+    }
+
+    const done: MoltwireEvent[] = [];
+    let deadLettered = 0;
+
+    events.forEach((event, index) => {
+      const reason = reasons.get(index);
+      if (reason === undefined) {
+        this.attempts.delete(event.event_id);
+        done.push(event);
+        return;
+      }
+
+      const attempts = (this.attempts.get(event.event_id) || 0) + 1;
+      if (isTransientRejection(reason) && attempts < MAX_EVENT_ATTEMPTS) {
+        this.attempts.set(event.event_id, attempts);
+        return;
+      }
+
+      this.attempts.delete(event.event_id);
+      this.add(event, reason);
+      deadLettered++;
+      done.push(event);
+    });
+
+    if (deadLettered > 0) {
+      logger.debug(`Moved ${deadLettered} rejected events to the dead-letter file`);
+    }
+
+    return done;
+  }
+
+  /**
+   * Read all dead letters, oldest first
+   */
+  list(): DeadLetter[] {
+    return readEntries(this.filepath);
+  }
+
+  /**
+   * Move every dead letter out of the queue, e.g. to resubmit them
+   * The file is renamed aside rather than rewritten, so events the plugin
+   * records in the meantime go to a fresh file and are never lost. Hand
+   * back whatever is still rejected with `restore()`. Entries left aside by
+   * an interrupted run are taken again.
+   */
+  take(): DeadLetter[] {
+    const processing = `${this.filepath}.processing`;
+
+    try {
+      if (existsSync(processing)) {
+        this.restore(readEntries(processing));
+      }
+      if (!existsSync(this.filepath)) {
+        return [];
+      }
+      renameSync(this.filepath, processing);
+    } catch (error) {
+      logger.error('Failed to take dead letters', { error });
+      return [];
+    }
+
+    this.count = 0;
+    return readEntries(processing);
+  }
+
+  /**
+   * Put entries taken with `take()` back into the queue
+   * Appended, like new dead letters, so concurrent writers don't collide.
+   */
+  restore(entries: DeadLetter[]): void {
+    try {
+      this.append(entries);
+      this.count += entries.length;
+      const processing = `${this.filepath}.processing`;
+      if (existsSync(processing)) {
+        unlinkSync(processing);
+      }
+    } catch (error) {
+      logger.error('Failed to restore dead letters', { error });
+    }
+  }
+
+  /**
+   * Overwrite the queue with the given entries
+   */
+  replace(entries: DeadLetter[]): void {
+    try {
+      writeFileSync(this.filepath, entries.map(e => JSON.stringify(e) + '\n').join(''), 'utf-8');
+      this.count = entries.length;
+    } catch (error) {
+      logger.error('Failed to rewrite dead letters', { error });
+    }
+  }
+
+  /**
+   * Get the number of dead letters
+   */
+  size(): number {
+    return this.count;
+  }
+
+  /**
+   * Count dead letters grouped by rejection reason
+   */
+  countByReason(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const entry of this.list()) {
+      counts[entry.reason] = (counts[entry.reason] || 0) + 1;
+    }
+    return counts;
+  }
+
+  private append(entries: DeadLetter[]): void {
+    if (!existsSync(dirname(this.filepath))) {
+      mkdirSync(dirname(this.filepath), { recursive: true });
+    }
+    appendFileSync(this.filepath, entries.map(e => JSON.stringify(e) + '\n').join(''), 'utf-8');
+  }
+}
+
+function readEntries(filepath: string): DeadLetter[] {
+  const entries: DeadLetter[] = [];
+
+  try {
+    if (existsSync(filepath)) {
+      for (const line of readFileSync(filepath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // Skip torn lines
+        }
+      }
+    }
+  } catch {
+    // Ignore errors reading the file
+  }
+
+  return entries;
+}
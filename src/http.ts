@@ -0,0 +1,144 @@
+import { readFileSync } from 'fs';
+import { rootCertificates } from 'tls';
+import { BlockList, isIP } from 'net';
+import { Agent, Dispatcher, ProxyAgent, fetch as undiciFetch } from 'undici';
+import type { MoltwireConfig } from './types.js';
+
+export type NetworkOptions = Partial<Pick<MoltwireConfig, 'proxyUrl' | 'noProxy' | 'caFile' | 'clientCertFile' | 'clientKeyFile'>>;
+
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Resolve the proxy to use: explicit config first, then the usual environment variables
+ */
+function resolveProxy(options: NetworkOptions): { proxyUrl: string; noProxy: string[] } {
+  const env = process.env;
+  const proxyUrl = options.proxyUrl || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || '';
+  const noProxy = options.noProxy && options.noProxy.length > 0
+    ? options.noProxy
+    : (env.NO_PROXY || env.no_proxy || '').split(',').map(entry => entry.trim()).filter(Boolean);
+
+  return { proxyUrl, noProxy };
+}
+
+/**
+ * Check whether a host is excluded from proxying by a NO_PROXY-style list
+ * Entries may be `*`, a hostname (also matches subdomains), `.domain`, an
+ * IP address, each optionally with `:port`, or a CIDR block such as `10.0.0.0/8`.
+ */
+export function shouldBypassProxy(url: string, noProxy: string[]): boolean {
+  let host: string;
+  let port: string;
+  try {
+    const parsed = new URL(url);
+    host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    port = parsed.port || (parsed.protocol === 'https:' ? '443' : '80');
+  } catch {
+    return false;
+  }
+
+  return noProxy.some(raw => {
+    let entry = raw.trim().toLowerCase();
+    if (!entry) return false;
+    if (entry === '*') return true;
+    if (entry.includes('/')) return inCidr(host, entry);
+
+    const portMatch = entry.match(/^(.*?)(?::(\d+))?$/);
+    if (portMatch && portMatch[2] && !entry.includes('::')) {
+      if (portMatch[2] !== port) return false;
+      entry = portMatch[1];
+    }
+
+    entry = entry.replace(/^\*?\./, '');
+    return host === entry || host.endsWith(`.${entry}`);
+  });
+}
+
+/**
+ * Whether an IP literal host falls inside a CIDR block; hostnames never do
+ */
+function inCidr(host: string, cidr: string): boolean {
+  const [network, bits] = cidr.split('/');
+  const family = isIP(network);
+  const prefix = Number(bits);
+  if (!family || isIP(host) !== family || !/^\d+$/.test(bits) || prefix > (family === 4 ? 32 : 128)) {
+    return false;
+  }
+
+  const block = new BlockList();
+  const type = family === 4 ? 'ipv4' : 'ipv6';
+  block.addSubnet(network, prefix, type);
+  return block.check(host, type);
+}
+
+/**
+ * Create a fetch function that applies the proxy, CA bundle and client
+ * certificate settings to every request
+ * Falls back to the global fetch when nothing is configured.
+ */
+export function createFetch(options: NetworkOptions = {}): FetchFunction {
+  const { proxyUrl, noProxy } = resolveProxy(options);
+  const hasTls = !!(options.caFile || options.clientCertFile);
+
+  if (!proxyUrl && !hasTls) {
+    return (url, init) => fetch(url, init);
+  }
+
+  const tls: { ca?: string[]; cert?: Buffer; key?: Buffer } = {};
+  if (options.caFile) {
+    // Keep the public roots so non-intercepted hosts still verify
+    tls.ca = [...rootCertificates, readFileSync(options.caFile, 'utf-8')];
+  }
+  if (options.clientCertFile && options.clientKeyFile) {
+    tls.cert = readFileSync(options.clientCertFile);
+    tls.key = readFileSync(options.clientKeyFile);
+  }
+
+  const direct: Dispatcher = new Agent({ connect: tls });
+  const proxied: Dispatcher | null = proxyUrl
+    ? new ProxyAgent({ uri: proxyUrl, requestTls: tls, proxyTls: tls.ca ? { ca: tls.ca } : undefined })
+    : null;
+
+  return (url, init) => {
+    const dispatcher = proxied && !shouldBypassProxy(url, noProxy) ? proxied : direct;
+    return undiciFetch(url, { ...init, dispatcher } as Parameters<typeof undiciFetch>[1]) as unknown as Promise<Response>;
+  };
+}
+
+/**
+ * Validate network options, returning human-readable errors
+ */
+export function validateNetworkOptions(options: NetworkOptions): string[] {
+  const errors: string[] = [];
+
+  if (options.proxyUrl) {
+    try {
+      const parsed = new URL(options.proxyUrl);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        errors.push('proxyUrl must be an http:// or https:// URL');
+      }
+    } catch {
+      errors.push('proxyUrl is not a valid URL');
+    }
+  }
+
+  if (options.noProxy !== undefined && !Array.isArray(options.noProxy)) {
+    errors.push('noProxy must be an array of hostnames');
+  }
+
+  for (const key of ['caFile', 'clientCertFile', 'clientKeyFile'] as const) {
+    const path = options[key];
+    if (!path) continue;
+    try {
+      readFileSync(path);
+    } catch {
+      errors.push(`${key} is not readable: ${path}`);
+    }
+  }
+
+  if (!!options.clientCertFile !== !!options.clientKeyFile) {
+    errors.push('clientCertFile and clientKeyFile must be set together');
+  }
+
+  return errors;
+}
@@ -1,15 +1,28 @@
 import { EventBuffer } from './buffer.js';
 import { EventCollector } from './collector.js';
 import { EventSender } from './sender.js';
+import { ApiClient } from './api-client.js';
 import { ThreatIntelligence } from './threats.js';
+import { DeadLetterQueue } from './dead-letter.js';
+import { SinkRunner, createSink } from './sinks.js';
+import { SequenceCounter } from './signing.js';
+import { AnomalyRuleEngine, RuleContext, loadAnomalyRules } from './anomaly-rules.js';
 import { LogWatcher, LogEvent } from './log-watcher.js';
+import { resolveLogPattern } from './log-tailer.js';
+import { PairedSenders } from './channels.js';
 import { loadConfig, validateConfig, getOrCreateAgentId, loadLocalState, saveLocalState, LocalState, savePendingToken, getPendingToken, clearPendingToken, saveApiKey } from './config.js';
-import { extractDomain } from './classifier.js';
+import { extractTargets } from './targets.js';
+import { isElevatedCommand } from './shell-parser.js';
 import type { MoltwireConfig, MoltwireEvent } from './types.js';
+import { logger } from './logger.js';
+
+// Tell the agent once the API has been unreachable for this long
+const DEGRADED_NOTICE_MS = 30 * 60 * 1000;
 
 // Export types for consumers
 export * from './types.js';
 export { classifyCommand, extractDomain, isCredentialPath } from './classifier.js';
+export { extractTargets, type NetworkTarget } from './targets.js';
 export { hashIdentifier, scrubPII, createAgentId, createSessionId } from './anonymizer.js';
 export { ThreatIntelligence } from './threats.js';
 
@@ -27,34 +40,54 @@ function textResult(data: unknown): { content: Array<{ type: 'text'; text: strin
  */
 export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireConfig> = {}) {
   const config = loadConfig(userConfig);
-  const agentId = getOrCreateAgentId();
-  const buffer = new EventBuffer(100, config.flushBatchSize);
-  const collector = new EventCollector(agentId, config);
-  const sender = new EventSender(config);
-  const threats = new ThreatIntelligence(config);
-  const logWatcher = new LogWatcher();
-  let state: LocalState = loadLocalState();
-  let flushInterval: NodeJS.Timeout | null = null;
-  let isEnabled = false;
+  logger.configure({ debug: config.debug, format: config.logFormat, file: config.logFile });
 
-  // Validate configuration
+  // Validate before building anything that reads certificate files or sink settings
   const validation = validateConfig(config);
-  console.log('[Moltwire] Validation result:', { valid: validation.valid, hasApiKey: validation.hasApiKey, errors: validation.errors });
+  logger.debug('Validation result', { valid: validation.valid, hasApiKey: validation.hasApiKey, errors: validation.errors });
 
   if (!validation.valid) {
-    api.logger?.error?.('[Moltwire] Invalid configuration:', validation.errors.join(', '));
+    logger.error('Invalid configuration', { errors: validation.errors });
     return;
   }
 
   if (!config.enabled) {
-    api.logger?.info?.('[Moltwire] Plugin is disabled');
+    logger.info('Plugin is disabled');
     return;
   }
 
-  // Register before_agent_start hook to prompt for setup when no API key
+  const agentId = getOrCreateAgentId();
+  const buffer = new EventBuffer(config);
+  const collector = new EventCollector(agentId, config);
+  const sequence = new SequenceCounter();
+  const client = new ApiClient(config);
+  const sender = new EventSender(config, client);
+  const threats = new ThreatIntelligence(config, client);
+  const deadLetters = new DeadLetterQueue();
+  const sinks = config.sinks.map(
+    (sink, index) => new SinkRunner(createSink(sink, index, config), config)
+  );
+  const logSource = resolveLogPattern(config.logPath);
+  const logWatcher = new LogWatcher({
+    pattern: logSource.pattern,
+    backfillMinutes: config.logBackfillMinutes,
+    parsersModule: config.logParsersModule,
+    channelMappings: config.channelMappings
+  });
+  const pairedSenders = new PairedSenders();
+  let state: LocalState = loadLocalState();
+  const anomalyRules = new AnomalyRuleEngine(loadAnomalyRules(config.anomalyRulesFile), state.seenValues);
+  let flushInterval: NodeJS.Timeout | null = null;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let isEnabled = false;
+  let degradedNoticeSent = false;
+  let apiKeyConfigured = validation.hasApiKey;
+
+  // Register before_agent_start hook to prompt for setup when no API key,
+  // and to warn once per outage when the API has been unreachable for a long time
   api.on?.('before_agent_start', async () => {
     if (!validation.hasApiKey) {
-      console.log('[Moltwire] before_agent_start: No API key, injecting setup prompt');
+      logger.debug('before_agent_start: No API key, injecting setup prompt');
       return {
         systemMessages: [
           `[MOLTWIRE SETUP REQUIRED] The Moltwire security plugin is installed but not yet configured. ` +
@@ -63,83 +96,120 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
         ]
       };
     }
+
+    const degradedMs = client.getDegradedDuration();
+    if (degradedMs === 0) {
+      degradedNoticeSent = false;
+    } else if (degradedMs >= DEGRADED_NOTICE_MS && !degradedNoticeSent && !client.isOffline()) {
+      degradedNoticeSent = true;
+      const minutes = Math.round(degradedMs / 60000);
+      return {
+        systemMessages: [
+          `[MOLTWIRE DEGRADED] The Moltwire security plugin has been unable to reach its API for ${minutes} minutes. ` +
+          `Events are being kept locally and threat intelligence is served from cache. ` +
+          `Let the user know in case they want to check network connectivity; call moltwire_status for details.`
+        ]
+      };
+    }
+
     return {};
   });
 
   /**
-   * Flush buffered events to the API
+   * Flush buffered events to the API and every configured sink
    */
   async function flush(): Promise<void> {
-    if (!buffer.hasEvents()) return;
+    await Promise.all([
+      // Without an API key, events stay buffered until setup completes
+      apiKeyConfigured ? flushApi() : Promise.resolve(),
+      ...sinks.map(sink => sink.flush())
+    ]);
+  }
 
-    const { events, confirm } = buffer.flush();
-    if (events.length === 0) return;
+  /**
+   * Flush buffered events to the API
+   * Drains the buffer batch by batch until it is empty or a send fails
+   */
+  async function flushApi(): Promise<void> {
+    while (buffer.hasEvents() && sender.isReady()) {
+      const { events, confirm, release } = buffer.flush();
+      if (events.length === 0) return;
 
-    const result = await sender.send(events);
-    if (result.accepted > 0) {
-      confirm();
-      state.lastFlushTime = Date.now();
+      try {
+        const result = await sender.send(events);
+        const hasIndexedErrors = result.errors?.some(e => e.index >= 0) ?? false;
+
+        if (result.accepted > 0 || hasIndexedErrors) {
+          const done = deadLetters.settleBatch(events, result);
+          confirm(done);
+          if (result.accepted > 0) {
+            state.lastFlushTime = Date.now();
+          }
+          // Retry transiently rejected events on the next interval, not in this loop
+          if (done.length < events.length) return;
+        } else if (result.retryable || sender.getBackoffState().paused) {
+          // Keep the batch buffered; it goes out again once sending resumes
+          release();
+          scheduleRetry();
+          return;
+        } else {
+          // Terminal rejection, resending the same batch can never succeed
+          const reason = result.errors?.[0]?.reason || 'Rejected by API';
+          for (const event of events) {
+            deadLetters.add(event, reason);
+          }
+          confirm();
+          // Counted by reason in moltwire_status and `moltwire dead-letter`
+          logger.debug(`Moved ${events.length} rejected events to the dead-letter file`);
+          return;
+        }
+      } catch (error) {
+        release();
+        throw error;
+      }
     }
   }
 
   /**
-   * Queue an event for sending
+   * Schedule a flush for when the sender's backoff expires
    */
-  function queueEvent(event: MoltwireEvent | null): void {
-    if (!isEnabled || !event) return;
-    buffer.push(event);
+  function scheduleRetry(): void {
+    if (retryTimer || sender.getBackoffState().paused) return;
 
-    // Flush immediately if buffer is full
-    if (buffer.size() >= config.flushBatchSize) {
-      flush().catch((err) => api.logger?.error?.('[Moltwire] Flush error:', err));
-    }
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flushApi().catch((err) => logger.error('Flush error', { error: err }));
+    }, sender.getRetryDelay());
   }
 
   /**
-   * Track rapid tool execution for anomaly detection
+   * Queue an event for sending
    */
-  function trackRapidExecution(): void {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60000;
-
-    if (state.lastToolExecutionTime < oneMinuteAgo) {
-      state.toolExecutionCount = 1;
-    } else {
-      state.toolExecutionCount++;
+  function queueEvent(event: MoltwireEvent | null): void {
+    if (!isEnabled || !event) return;
+    // Numbered only once it is actually queued, so dropped events leave no gaps
+    event.sequence = sequence.next();
+    buffer.push(event);
+    for (const sink of sinks) {
+      sink.push(event);
     }
 
-    state.lastToolExecutionTime = now;
-
-    if (state.toolExecutionCount > 20) {
-      const event = collector.collectAnomalyIndicator(
-        'rapid_tool_execution',
-        `${state.toolExecutionCount} tool calls in the last minute`,
-        'medium'
-      );
-      queueEvent(event);
-      state.toolExecutionCount = 0;
+    // Flush immediately once a full batch is waiting
+    if (buffer.size() >= config.flushBatchSize || buffer.bytes() >= config.flushBatchBytes) {
+      flush().catch((err) => logger.error('Flush error', { error: err }));
     }
   }
 
   /**
-   * Track new domains for anomaly detection
+   * Run anomaly rules against an event and queue any indicators they raise
+   * `context` holds local-only values (e.g. message text) rules may test
    */
-  function trackNewDomain(domain: string): void {
-    const lowerDomain = domain.toLowerCase();
-
-    if (!state.seenDomains.includes(lowerDomain)) {
-      state.seenDomains.push(lowerDomain);
+  function detectAnomalies(event: MoltwireEvent | null, context: RuleContext = {}): void {
+    if (!config.localAnomalyDetection || !event) return;
 
-      if (state.seenDomains.length > 1000) {
-        state.seenDomains = state.seenDomains.slice(-1000);
-      }
-
-      const event = collector.collectAnomalyIndicator(
-        'new_external_domain',
-        `First contact with domain: ${lowerDomain}`,
-        'low'
-      );
-      queueEvent(event);
+    const ruleContext = { trustedSkillSources: config.trustedSkillSources, ...context };
+    for (const match of anomalyRules.evaluate(event, ruleContext)) {
+      queueEvent(collector.collectAnomalyIndicator(match.indicator, match.detail, match.severity));
     }
   }
 
@@ -152,42 +222,70 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
       const moltwireEvent = collector.collectInboundMessage({
         channelType: event.channel,
         content: event.body,
-        senderId: event.from,
-        isDm: true,
-      } as any);
+        peerId: event.from,
+        isDm: event.conversation ? event.conversation === 'dm' : undefined,
+        isFromPairedUser: pairedSenders.isPaired(event.channel, event.from)
+      });
       queueEvent(moltwireEvent);
-
-      // Check for suspicious content
-      if (config.localAnomalyDetection && event.body) {
-        const promptEvent = collector.checkSystemPromptRequest(event.body);
-        queueEvent(promptEvent);
-      }
+      detectAnomalies(moltwireEvent, { content: event.body });
     } else if (event.eventType === 'tool_execution') {
-      // Create tool execution event
+      // Arguments (when debug logging exposes them) only feed local classification;
+      // the event itself carries the derived pattern and domain, never the raw values
+      const command = event.args?.command || event.args?.path || event.args?.url;
+      // Left unknown when the shell command isn't logged, so a missing value never reads as a drop
+      const isElevated = event.args?.command ? isElevatedCommand(event.args.command) : undefined;
       const moltwireEvent = collector.collectToolExecution(
-        { toolName: event.toolName, toolCallId: event.toolCallId } as any,
-        { duration: event.duration || 0, success: true } as any
+        { toolName: event.toolName, command, browser: event.args?.browser, isElevated },
+        { duration: event.duration || 0, status: event.status }
       );
       queueEvent(moltwireEvent);
-
-      // Track for anomaly detection
-      if (config.localAnomalyDetection) {
-        trackRapidExecution();
-      }
-
-      // Check for blocked domains in web fetch tools
-      if (event.toolName === 'web_fetch' || event.toolName === 'fetch') {
-        // Note: We don't have the URL here, but could parse from logs if needed
+      detectAnomalies(moltwireEvent, { command: event.args?.command });
+
+      // Check contacted domains (web_fetch, curl, browser...) against threat intelligence
+      const blocked = extractTargets(command || '').find(target => threats.isDomainBlocked(target.host));
+      if (blocked) {
+        queueEvent(collector.collectAnomalyIndicator(
+          'matched_threat_signature',
+          `Blocked domain contacted: ${blocked.domain || blocked.host}`,
+          'high'
+        ));
       }
+    } else if (event.eventType === 'outbound_message') {
+      const moltwireEvent = collector.collectOutboundMessage({
+        channelType: event.channel,
+        content: event.body,
+        peerId: event.to,
+        isDm: event.conversation ? event.conversation === 'dm' : undefined
+      });
+      queueEvent(moltwireEvent);
+      detectAnomalies(moltwireEvent);
+    } else if (event.eventType === 'run_lifecycle') {
+      const moltwireEvent = collector.collectSessionLifecycle({ sessionId: event.sessionId || event.runId }, event.action);
+      queueEvent(moltwireEvent);
+      detectAnomalies(moltwireEvent);
+    } else if (event.eventType === 'skill_change') {
+      const moltwireEvent = collector.collectConfigChange({
+        changeType: event.action === 'installed' ? 'skill_installed' : 'skill_removed',
+        skillName: event.skillName,
+        skillSource: event.source
+      });
+      queueEvent(moltwireEvent);
+      detectAnomalies(moltwireEvent);
+    } else if (event.eventType === 'config_reload') {
+      const moltwireEvent = collector.collectConfigChange({ changeType: 'config_reloaded' });
+      queueEvent(moltwireEvent);
+      detectAnomalies(moltwireEvent);
     }
+    // model_error lines are only counted in moltwire_status
   }
 
   /**
    * Start the log watcher for collecting events
    */
   function startLogWatcher(): void {
-    logWatcher.start(handleLogEvent);
-    console.log('[Moltwire] Log watcher started');
+    logWatcher.start(handleLogEvent)
+      .then(() => logger.info('Log watcher started'))
+      .catch((err) => logger.error('Log watcher error', { error: err }));
   }
 
   /**
@@ -196,16 +294,13 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
   async function initSetup(): Promise<string | null> {
     const { randomUUID } = await import('crypto');
     const token = randomUUID();
-    const apiEndpoint = config.apiEndpoint || 'https://api.moltwire.com';
     const appUrl = 'https://app.moltwire.com';
 
     try {
-      const response = await fetch(`${apiEndpoint}/v1/register/init`, {
+      const response = await client.fetch('/v1/register/init', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'moltwire-plugin/0.1.2'
-        },
+        auth: false,
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           token,
           agent_id: agentId,
@@ -215,46 +310,68 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
       });
 
       if (!response.ok) {
-        console.error('[Moltwire] Failed to initialize registration');
+        logger.error('Failed to initialize registration');
         return null;
       }
 
       savePendingToken(token);
       return `${appUrl}/setup?token=${token}&agent=${agentId}`;
     } catch (error) {
-      console.error('[Moltwire] Setup error:', error);
+      logger.error('Setup error', { error });
       return null;
     }
   }
 
   // Start plugin
   async function start() {
-    console.log('[Moltwire] start() called, hasApiKey:', validation.hasApiKey);
+    logger.debug('start() called', { hasApiKey: validation.hasApiKey });
+
+    // Replay events left on disk by a previous run
+    buffer.start();
+    for (const sink of sinks) {
+      sink.start();
+    }
 
     // If no API key, just log and return - the before_agent_start hook will handle prompting
     if (!validation.hasApiKey) {
-      console.log('[Moltwire] No API key configured. Will prompt for setup on first agent interaction.');
+      logger.info('No API key configured. Will prompt for setup on first agent interaction.');
+      // Configured sinks get the event stream whether or not the API is set up
+      if (sinks.length > 0) {
+        startCollecting();
+      }
       return;
     }
 
-    // Verify API key
-    const isValid = await sender.verifyApiKey();
-    if (!isValid) {
-      api.logger?.warn?.('[Moltwire] API key verification failed. Events will be buffered locally.');
+    // Verify API key (skipped in offline mode, where nothing leaves the machine)
+    if (client.isOffline()) {
+      logger.info('Offline mode. Events will be buffered locally.');
+    } else if (!await sender.verifyApiKey()) {
+      logger.warn('API key verification failed. Events will be buffered locally.');
     }
 
-    // Start flush interval
-    flushInterval = setInterval(() => flush(), config.flushIntervalSeconds * 1000);
-
     // Start threat intelligence polling
     threats.start();
 
-    // Start log watcher (captures all events from OpenClaw log file)
-    startLogWatcher();
+    startCollecting();
+    logger.info(`Plugin started. Agent ID: ${agentId.slice(0, 8)}...`);
+  }
+
+  /**
+   * Start the flush interval and the log watcher, once
+   */
+  function startCollecting(): void {
+    if (isEnabled) return;
 
+    flushInterval = setInterval(() => {
+      flush().catch((err) => logger.error('Flush error', { error: err }));
+    }, config.flushIntervalSeconds * 1000);
+
+    // Enabled first, as lines replayed from the backfill window arrive right away
     isEnabled = true;
-    console.log('[Moltwire] isEnabled set to true');
-    api.logger?.info?.(`[Moltwire] Plugin started. Agent ID: ${agentId.slice(0, 8)}...`);
+    logger.debug('isEnabled set to true');
+
+    // Start log watcher (captures all events from OpenClaw log file)
+    startLogWatcher();
   }
 
   // Stop plugin
@@ -266,13 +383,23 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
       flushInterval = null;
     }
 
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+
     threats.stop();
     logWatcher.stop();
     await flush();
+    state.seenValues = anomalyRules.getSeenValues();
     saveLocalState(state);
     buffer.close();
+    sequence.release();
+    for (const sink of sinks) {
+      sink.close();
+    }
 
-    api.logger?.info?.('[Moltwire] Plugin stopped');
+    logger.info('Plugin stopped');
   }
 
   // Register moltwire_status tool
@@ -285,12 +412,23 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
         enabled: isEnabled,
         agentId: agentId.slice(0, 12) + '...',
         bufferSize: buffer.size(),
+        buffer: buffer.getStats(),
         signatureCount: threats.getSignatureCount(),
         lastFlush: state.lastFlushTime ? new Date(state.lastFlushTime).toISOString() : 'never',
+        backoff: sender.getBackoffState(),
+        api: client.getState(),
+        sinks: sinks.map(sink => sink.getStatus()),
+        logWatcher: { source: logSource.source, ...logWatcher.getStatus() },
+        deadLetters: {
+          count: deadLetters.size(),
+          byReason: deadLetters.countByReason()
+        },
         config: {
           apiEndpoint: config.apiEndpoint,
           flushInterval: config.flushIntervalSeconds,
+          compression: sender.getCompression(),
           localAnomalyDetection: config.localAnomalyDetection,
+          anomalyRules: anomalyRules.getRules().map(rule => rule.id),
         }
       });
     }
@@ -368,12 +506,10 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
         });
       }
 
-      const apiEndpoint = config.apiEndpoint || 'https://api.moltwire.com';
-
       try {
-        const response = await fetch(`${apiEndpoint}/v1/register/status?token=${token}`, {
+        const response = await client.fetch(`/v1/register/status?token=${encodeURIComponent(token)}`, {
           method: 'GET',
-          headers: { 'User-Agent': 'moltwire-plugin/0.1.0' }
+          auth: false
         });
 
         if (!response.ok) {
@@ -389,17 +525,12 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
           saveApiKey(data.api_key);
           clearPendingToken();
           sender.setApiKey(data.api_key);
+          apiKeyConfigured = true;
 
-          // Enable monitoring if not already enabled
-          if (!isEnabled) {
-            if (!flushInterval) {
-              flushInterval = setInterval(() => flush(), config.flushIntervalSeconds * 1000);
-            }
-            threats.start();
-            startLogWatcher();
-            isEnabled = true;
-            api.logger?.info?.(`[Moltwire] Monitoring activated. Agent ID: ${agentId.slice(0, 8)}...`);
-          }
+          // Enable monitoring if not already enabled (sinks may have started collection already)
+          threats.start();
+          startCollecting();
+          logger.info(`Monitoring activated. Agent ID: ${agentId.slice(0, 8)}...`);
 
           return textResult({
             success: true,
@@ -430,10 +561,10 @@ export default function moltwirePlugin(api: any, userConfig: Partial<MoltwireCon
     }
   });
 
-  api.logger?.info?.('[Moltwire] Plugin loaded');
+  logger.info('Plugin loaded');
 
   // Start the plugin
-  start().catch((err) => api.logger?.error?.('[Moltwire] Start error:', err));
+  start().catch((err) => logger.error('Start error', { error: err }));
 
   // Return cleanup function
   return () => stop();
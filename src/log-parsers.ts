@@ -0,0 +1,338 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { homedir } from 'os';
+import { pathToFileURL } from 'url';
+import { detectChannel, detectConversationType } from './channels.js';
+import { parseBrowserAction } from './browser-actions.js';
+import type { LogEvent, ToolArgs, ToolCallLine } from './log-watcher.js';
+import { logger } from './logger.js';
+
+/**
+ * One OpenClaw log line, pre-split into the fields parsers usually need
+ * OpenClaw writes tslog JSON: `0` is the logger/subsystem, `1` the message
+ * or an object argument, `2` the message when `1` is an object.
+ */
+export interface LogLine {
+  json: Record<string, any>;
+  subsystem: string;
+  // Channel worked out from the subsystem name (see channels.ts)
+  channel: string;
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Turns matching log lines into events
+ * Parsers are tried in order and the first whose `matches()` returns true
+ * handles the line; `parse()` may still return null to drop it.
+ */
+export interface LogParser {
+  name: string;
+  matches(line: LogLine): boolean;
+  parse(line: LogLine): LogEvent | ToolCallLine | null;
+}
+
+/**
+ * Split a raw log line into a LogLine, or null if it isn't OpenClaw JSON
+ */
+export function toLogLine(raw: string, channelMappings: Record<string, string> = {}): LogLine | null {
+  let json: Record<string, any>;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    // Not all lines are JSON
+    return null;
+  }
+  if (!json || typeof json !== 'object') return null;
+
+  const message = typeof json['1'] === 'string' ? json['1'] : typeof json['2'] === 'string' ? json['2'] : '';
+  const subsystem = typeof json['0'] === 'string' ? json['0'] : '';
+  const detail = json['1'] && typeof json['1'] === 'object' ? json['1'] : {};
+  return {
+    json,
+    subsystem,
+    channel: detectChannel(subsystem, detail.channel ?? detail.provider, channelMappings),
+    message,
+    timestamp: json['time'] || json['_meta']?.date || new Date().toISOString()
+  };
+}
+
+const inboundMessageParser: LogParser = {
+  name: 'inbound_message',
+  matches: (line) => line.json['2'] === 'inbound message' && !!line.json['1']?.body,
+  parse: (line) => {
+    const msg = line.json['1'];
+    return {
+      eventType: 'inbound_message',
+      from: msg.from || '',
+      to: msg.to || '',
+      body: msg.body || '',
+      timestamp: line.json['time'] || line.json['_meta']?.date || new Date(msg.timestamp).toISOString(),
+      sentAt: msg.timestamp,
+      channel: line.channel,
+      conversation: detectConversationType(msg)
+    };
+  }
+};
+
+const outboundMessageParser: LogParser = {
+  name: 'outbound_message',
+  matches: (line) => (line.json['2'] === 'outbound message' || line.json['2'] === 'reply sent') && !!line.json['1'],
+  parse: (line) => {
+    const msg = line.json['1'];
+    return {
+      eventType: 'outbound_message',
+      to: msg.to || '',
+      body: msg.body || msg.text || '',
+      timestamp: line.timestamp,
+      channel: line.channel,
+      conversation: detectConversationType(msg)
+    };
+  }
+};
+
+// "embedded run tool start: runId=xxx tool=yyy toolCallId=zzz", with debug
+// logging optionally followed by " args={...}"
+const TOOL_PATTERN = /embedded run tool (start|end): runId=(\S+) tool=(\S+) toolCallId=(\S+)(?:\s+(?:args|input|params)=(\{.*\}))?/;
+
+const COMMAND_KEYS = ['command', 'cmd', 'script'];
+const PATH_KEYS = ['path', 'file_path', 'filePath', 'file'];
+const URL_KEYS = ['url', 'uri', 'href', 'targetUrl'];
+
+function pickString(source: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value) return value;
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join(' ');
+  }
+  return undefined;
+}
+
+/**
+ * Keep only the tool arguments local classification needs
+ */
+export function extractToolArgs(raw: unknown): ToolArgs | undefined {
+  let source = raw;
+  if (typeof source === 'string') {
+    try {
+      source = JSON.parse(source);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!source || typeof source !== 'object') return undefined;
+
+  const values = source as Record<string, unknown>;
+  const args: ToolArgs = {
+    command: pickString(values, COMMAND_KEYS),
+    path: pickString(values, PATH_KEYS),
+    url: pickString(values, URL_KEYS),
+    browser: values.action !== undefined || values.request !== undefined ? parseBrowserAction(values) : undefined
+  };
+  return args.command || args.path || args.url || args.browser ? args : undefined;
+}
+
+const toolCallParser: LogParser = {
+  name: 'tool_call',
+  matches: (line) => line.message.includes('embedded run tool'),
+  parse: (line) => {
+    const match = line.message.match(TOOL_PATTERN);
+    if (!match) return null;
+    const [, phase, runId, toolName, toolCallId, rawArgs] = match;
+    return {
+      eventType: 'tool_call',
+      phase: phase as 'start' | 'end',
+      runId,
+      toolName,
+      toolCallId,
+      args: phase === 'start' ? extractToolArgs(rawArgs) : undefined,
+      timestamp: line.timestamp
+    };
+  }
+};
+
+// Debug-level structured line: { 1: { toolCallId, args }, 2: "tool call" }
+const TOOL_ARGS_MESSAGES = ['tool call', 'tool input', 'tool args'];
+
+const toolArgsParser: LogParser = {
+  name: 'tool_args',
+  matches: (line) => TOOL_ARGS_MESSAGES.includes(line.json['2']) && typeof line.json['1']?.toolCallId === 'string',
+  parse: (line) => {
+    const detail = line.json['1'];
+    const args = extractToolArgs(detail.args ?? detail.input ?? detail.params);
+    if (!args) return null;
+    return {
+      eventType: 'tool_call',
+      phase: 'args',
+      runId: detail.runId || '',
+      toolName: detail.tool || detail.toolName || '',
+      toolCallId: detail.toolCallId,
+      args,
+      timestamp: line.timestamp
+    };
+  }
+};
+
+// "embedded run start: runId=xxx sessionId=yyy" / "embedded run done: runId=xxx ..."
+const RUN_PATTERN = /embedded run (start|end|done): runId=(\S+)(?:.*?\bsessionId=(\S+))?/;
+
+const runLifecycleParser: LogParser = {
+  name: 'run_lifecycle',
+  matches: (line) => RUN_PATTERN.test(line.message),
+  parse: (line) => {
+    const [, action, runId, sessionId] = line.message.match(RUN_PATTERN)!;
+    return {
+      eventType: 'run_lifecycle',
+      action: action === 'start' ? 'start' : 'end',
+      runId,
+      sessionId,
+      timestamp: line.timestamp
+    };
+  }
+};
+
+const MODEL_ERROR_PATTERN = /\b(model|provider|llm)\b.*\b(error|failed|failure)\b/i;
+
+const modelErrorParser: LogParser = {
+  name: 'model_error',
+  matches: (line) => MODEL_ERROR_PATTERN.test(line.message),
+  parse: (line) => ({
+    eventType: 'model_error',
+    provider: line.message.match(/\bprovider=(\S+)/)?.[1],
+    model: line.message.match(/\bmodel=(\S+)/)?.[1],
+    status: Number(line.message.match(/\b(?:status|code)=(\d{3})\b/)?.[1]) || undefined,
+    timestamp: line.timestamp
+  })
+};
+
+// "skill installed: name=foo source=clawhub" / "skill removed: foo"
+const SKILL_PATTERN = /\bskill (installed|removed|uninstalled):?\s+(?:name=)?(\S+)(?:.*?\bsource=(\S+))?/i;
+
+const skillChangeParser: LogParser = {
+  name: 'skill_change',
+  matches: (line) => SKILL_PATTERN.test(line.message),
+  parse: (line) => {
+    const [, action, skillName, source] = line.message.match(SKILL_PATTERN)!;
+    return {
+      eventType: 'skill_change',
+      action: action.toLowerCase() === 'installed' ? 'installed' : 'removed',
+      skillName,
+      source,
+      timestamp: line.timestamp
+    };
+  }
+};
+
+const CONFIG_RELOAD_PATTERN = /\bconfig (?:reloaded|reload applied|hot[- ]reload)/i;
+
+const configReloadParser: LogParser = {
+  name: 'config_reload',
+  matches: (line) => CONFIG_RELOAD_PATTERN.test(line.message),
+  parse: (line) => ({ eventType: 'config_reload', timestamp: line.timestamp })
+};
+
+/**
+ * Parsers for the log lines stock OpenClaw writes
+ */
+export const BUILTIN_PARSERS: LogParser[] = [
+  inboundMessageParser,
+  outboundMessageParser,
+  toolCallParser,
+  toolArgsParser,
+  runLifecycleParser,
+  skillChangeParser,
+  configReloadParser,
+  modelErrorParser
+];
+
+/**
+ * Ordered set of log parsers
+ */
+export class LogParserRegistry {
+  private parsers: LogParser[] = [];
+  private counts: Map<string, number> = new Map();
+  private channelMappings: Record<string, string>;
+
+  constructor(parsers: LogParser[] = BUILTIN_PARSERS, channelMappings: Record<string, string> = {}) {
+    this.channelMappings = channelMappings;
+    for (const parser of parsers) {
+      this.register(parser);
+    }
+  }
+
+  /**
+   * Add a parser; `first` puts it ahead of the existing ones so it can
+   * take over lines a built-in parser would otherwise handle
+   */
+  register(parser: LogParser, first = false): void {
+    if (!parser || typeof parser.name !== 'string' || typeof parser.matches !== 'function' ||
+        typeof parser.parse !== 'function') {
+      throw new Error('Log parser needs a name, matches() and parse()');
+    }
+
+    this.parsers = this.parsers.filter(p => p.name !== parser.name);
+    if (first) {
+      this.parsers.unshift(parser);
+    } else {
+      this.parsers.push(parser);
+    }
+  }
+
+  /**
+   * Run a raw log line through the first matching parser
+   */
+  parse(raw: string): LogEvent | ToolCallLine | null {
+    const line = toLogLine(raw, this.channelMappings);
+    if (!line) return null;
+
+    for (const parser of this.parsers) {
+      try {
+        if (!parser.matches(line)) continue;
+        const event = parser.parse(line);
+        if (event) {
+          this.counts.set(parser.name, (this.counts.get(parser.name) || 0) + 1);
+        }
+        return event;
+      } catch (error) {
+        logger.error(`Log parser ${parser.name} failed`, { error });
+        return null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Events produced so far, by parser name
+   */
+  getCounts(): Record<string, number> {
+    return Object.fromEntries(this.counts);
+  }
+
+  getNames(): string[] {
+    return this.parsers.map(p => p.name);
+  }
+}
+
+/**
+ * Load extra parsers from a local ES module
+ * The module exports `parsers` (or a default export) as an array of LogParser;
+ * they are registered ahead of the built-ins.
+ */
+export async function loadParserModule(registry: LogParserRegistry, modulePath: string): Promise<void> {
+  const path = resolve(modulePath.startsWith('~/') ? homedir() + modulePath.slice(1) : modulePath);
+  if (!existsSync(path)) {
+    logger.error(`Log parser module not found: ${path}`);
+    return;
+  }
+
+  try {
+    const mod = await import(pathToFileURL(path).href);
+    const parsers: LogParser[] = mod.parsers ?? mod.default ?? [];
+    for (const parser of [...parsers].reverse()) {
+      registry.register(parser, true);
+    }
+    logger.info(`Loaded ${parsers.length} log parser(s) from ${path}`);
+  } catch (error) {
+    logger.error(`Failed to load log parsers from ${path}`, { error });
+  }
+}
@@ -0,0 +1,483 @@
+import { watch, FSWatcher, openSync, readSync, closeSync, statSync, existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync } from 'fs';
+import { join, dirname, basename } from 'path';
+import { homedir } from 'os';
+import { logger } from './logger.js';
+
+// OpenClaw logs to /tmp/openclaw/openclaw-YYYY-MM-DD.log by default
+const DEFAULT_LOG_PATTERN = '/tmp/openclaw/openclaw-*.log';
+const LOG_FILE_GLOB = 'openclaw-*.log';
+
+const OPENCLAW_CONFIG_FILE = join(homedir(), '.openclaw', 'openclaw.json');
+const CHECKPOINT_FILE = join(homedir(), '.openclaw', 'moltwire', 'log_offsets.json');
+
+// Fallback check for missed watch events and the daily file switch
+const POLL_INTERVAL_MS = 1000;
+
+// Minimum time between checkpoint writes while lines keep arriving
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+// Besides the last file in name order, glob matches written to within this long are followed
+const ACTIVE_FILE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Checkpoints for files not touched in this long are forgotten
+const CHECKPOINT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const READ_CHUNK_BYTES = 64 * 1024;
+
+// A "line" longer than this without a newline is not a log line; drop it
+const MAX_PARTIAL_LINE_BYTES = 1024 * 1024;
+
+const NEWLINE = 0x0a;
+
+export type LineCallback = (line: string) => void;
+
+export interface LogTailerOptions {
+  // Log file, or a glob whose current matching files are followed
+  pattern?: string;
+  // Replay lines up to this old on startup; 0 starts at the end of the file
+  backfillMinutes?: number;
+  // Extract a line's timestamp (ms) so replay can skip lines outside the backfill window
+  lineTime?: (line: string) => number | null;
+  checkpointFile?: string;
+}
+
+interface Checkpoint {
+  inode: number;
+  offset: number;
+  updatedAt: number;
+}
+
+export interface LogTailerStatus {
+  pattern: string;
+  files: { path: string; offset: number }[];
+  lastLineAt: string | null;
+}
+
+export type LogPatternSource = 'config' | 'openclaw.json' | 'default';
+
+/**
+ * Work out which log file(s) to follow
+ * An explicit `logPath` wins (a directory means its dated OpenClaw logs);
+ * otherwise OpenClaw's own `logging.file` setting is used when present.
+ */
+export function resolveLogPattern(logPath?: string): { pattern: string; source: LogPatternSource } {
+  if (logPath) {
+    const expanded = logPath.startsWith('~/') ? join(homedir(), logPath.slice(2)) : logPath;
+    try {
+      if (statSync(expanded).isDirectory()) {
+        return { pattern: join(expanded, LOG_FILE_GLOB), source: 'config' };
+      }
+    } catch {
+      // Not there yet, or a glob
+    }
+    return { pattern: expanded, source: 'config' };
+  }
+
+  try {
+    if (existsSync(OPENCLAW_CONFIG_FILE)) {
+      const file = JSON.parse(readFileSync(OPENCLAW_CONFIG_FILE, 'utf-8'))?.logging?.file;
+      if (typeof file === 'string' && file) {
+        return { pattern: file.startsWith('~/') ? join(homedir(), file.slice(2)) : file, source: 'openclaw.json' };
+      }
+    }
+  } catch {
+    // Fall back to the default location
+  }
+
+  return { pattern: DEFAULT_LOG_PATTERN, source: 'default' };
+}
+
+/**
+ * All files a pattern matches, in name order
+ * Wildcards (`*`, `?`) are only supported in the file name, so dated
+ * files sort by date and the last one is today's.
+ */
+export function matchingLogFiles(pattern: string): string[] {
+  const name = basename(pattern);
+  if (!/[*?]/.test(name)) {
+    return existsSync(pattern) ? [pattern] : [];
+  }
+
+  const dir = dirname(pattern);
+  const regex = new RegExp('^' + name.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$');
+  try {
+    return readdirSync(dir).filter(entry => regex.test(entry)).sort().map(entry => join(dir, entry));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persisted byte offsets of the last complete line read from each log file
+ */
+class CheckpointStore {
+  private filepath: string;
+  private entries: Record<string, Checkpoint>;
+
+  constructor(filepath: string) {
+    this.filepath = filepath;
+    this.entries = this.load();
+  }
+
+  get(path: string): Checkpoint | undefined {
+    return this.entries[path];
+  }
+
+  set(path: string, inode: number, offset: number): void {
+    this.entries[path] = { inode, offset, updatedAt: Date.now() };
+  }
+
+  save(): void {
+    // Keep entries written by other gateways' plugins sharing this file
+    this.entries = { ...this.load(), ...this.entries };
+
+    const cutoff = Date.now() - CHECKPOINT_MAX_AGE_MS;
+    for (const [path, entry] of Object.entries(this.entries)) {
+      if (entry.updatedAt < cutoff) {
+        delete this.entries[path];
+      }
+    }
+
+    try {
+      if (!existsSync(dirname(this.filepath))) {
+        mkdirSync(dirname(this.filepath), { recursive: true });
+      }
+      writeFileSync(this.filepath, JSON.stringify(this.entries, null, 2), 'utf-8');
+    } catch (error) {
+      logger.error('Failed to save log checkpoints', { error });
+    }
+  }
+
+  private load(): Record<string, Checkpoint> {
+    try {
+      if (existsSync(this.filepath)) {
+        return JSON.parse(readFileSync(this.filepath, 'utf-8'));
+      }
+    } catch {
+      // Start without checkpoints on error
+    }
+    return {};
+  }
+}
+
+/**
+ * Read position in one followed file
+ */
+interface FollowedFile {
+  path: string;
+  fd: number;
+  inode: number;
+  offset: number;
+  partial: Buffer;
+  // Lines before this offset were logged while the plugin was down
+  replayUntil: number | null;
+  checkpointDirty: boolean;
+}
+
+/**
+ * Follows OpenClaw's log files using fs.watch plus positional reads
+ *
+ * Every current file matching the pattern is followed: the last one in
+ * name order plus any written to recently, so several gateways logging to
+ * one directory are all picked up. On startup each file resumes from its
+ * checkpointed offset, replaying what was logged while the plugin was down
+ * (bounded by the backfill window). Files that appear later are read from
+ * the start, and a file that stops being current (yesterday's) is read to
+ * the end before it is dropped. Truncated or replaced files are re-read
+ * from the start.
+ */
+export class LogTailer {
+  private pattern: string;
+  private onLine: LineCallback;
+  private backfillMs: number;
+  private lineTime: ((line: string) => number | null) | undefined;
+  private checkpoints: CheckpointStore;
+  private files: Map<string, FollowedFile> = new Map();
+  private watcher: FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private starting = true;
+  private reading = false;
+  private replaySince: number;
+  private lastCheckpointAt = 0;
+  private lastLineAt: number | null = null;
+
+  constructor(options: LogTailerOptions, onLine: LineCallback) {
+    this.pattern = options.pattern || DEFAULT_LOG_PATTERN;
+    this.onLine = onLine;
+    this.backfillMs = (options.backfillMinutes ?? 0) * 60 * 1000;
+    this.lineTime = options.lineTime;
+    this.replaySince = Date.now() - this.backfillMs;
+    this.checkpoints = new CheckpointStore(options.checkpointFile || CHECKPOINT_FILE);
+  }
+
+  /**
+   * Begin following the log directory
+   */
+  start(): void {
+    this.timer = setInterval(() => this.check(), POLL_INTERVAL_MS);
+    this.check();
+  }
+
+  /**
+   * Stop following, saving the current positions
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+    this.saveCheckpoints(true);
+    for (const file of this.files.values()) {
+      this.closeFile(file);
+    }
+    this.files.clear();
+  }
+
+  /**
+   * Files currently being followed
+   */
+  getPaths(): string[] {
+    return [...this.files.keys()];
+  }
+
+  getStatus(): LogTailerStatus {
+    return {
+      pattern: this.pattern,
+      files: [...this.files.values()].map(file => ({ path: file.path, offset: file.offset })),
+      lastLineAt: this.lastLineAt ? new Date(this.lastLineAt).toISOString() : null
+    };
+  }
+
+  /**
+   * Pick up new files, read anything new, and drop files that are no longer current
+   */
+  private check(): void {
+    if (this.reading) return;
+    this.reading = true;
+
+    try {
+      if (!this.watcher && existsSync(dirname(this.pattern))) {
+        this.watchDir();
+      }
+
+      const current = this.currentFiles();
+      for (const path of current) {
+        if (!this.files.has(path)) {
+          this.openFile(path);
+        }
+      }
+      this.starting = false;
+
+      for (const file of [...this.files.values()]) {
+        const exists = this.readAvailable(file);
+        // Drained and no longer current (e.g. the previous day's file): stop following
+        if (!exists || !current.has(file.path)) {
+          this.saveCheckpoint(file);
+          this.closeFile(file);
+          this.files.delete(file.path);
+        }
+      }
+      this.saveCheckpoints(false);
+    } catch (error) {
+      logger.error('Log tailer error', { error });
+    } finally {
+      this.reading = false;
+    }
+  }
+
+  /**
+   * Matching files worth following: the last in name order, any written to
+   * within the last day (or backfill window), and on startup any file a
+   * checkpoint shows was left unfinished
+   */
+  private currentFiles(): Set<string> {
+    const matches = matchingLogFiles(this.pattern);
+    const last = matches[matches.length - 1];
+    const since = Date.now() - Math.max(ACTIVE_FILE_MAX_AGE_MS, this.backfillMs);
+
+    // Kept in name order so older files are replayed first
+    const current = new Set<string>();
+    for (const path of matches) {
+      if (path === last) {
+        current.add(path);
+        continue;
+      }
+      try {
+        const stat = statSync(path);
+        const checkpoint = this.checkpoints.get(path);
+        const unfinished = this.starting && this.backfillMs > 0 && checkpoint !== undefined &&
+          checkpoint.inode === stat.ino && checkpoint.offset < stat.size;
+        if (stat.mtimeMs >= since || unfinished) {
+          current.add(path);
+        }
+      } catch {
+        // Removed since the directory was listed
+      }
+    }
+    return current;
+  }
+
+  private watchDir(): void {
+    try {
+      this.watcher = watch(dirname(this.pattern), () => this.check());
+      this.watcher.on('error', () => {
+        // Directory removed; polling re-creates the watch when it comes back
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch {
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Open a file and choose where to start reading
+   */
+  private openFile(path: string): void {
+    let stat;
+    let fd: number;
+    try {
+      stat = statSync(path);
+      fd = openSync(path, 'r');
+    } catch (error) {
+      logger.error(`Failed to open log file ${path}`, { error });
+      return;
+    }
+
+    let offset = 0;
+    if (!this.starting) {
+      // A file that appeared while running is read in full
+      offset = 0;
+    } else if (this.backfillMs <= 0) {
+      offset = stat.size;
+    } else {
+      const checkpoint = this.checkpoints.get(path);
+      offset = checkpoint && checkpoint.inode === stat.ino && checkpoint.offset <= stat.size
+        ? checkpoint.offset
+        : 0;
+    }
+
+    this.files.set(path, {
+      path,
+      fd,
+      inode: stat.ino,
+      offset,
+      partial: Buffer.alloc(0),
+      replayUntil: this.starting && this.backfillMs > 0 ? stat.size : null,
+      checkpointDirty: false
+    });
+
+    const replay = stat.size - offset;
+    logger.debug(`Following log file ${path}`, replay > 0 ? { replayBytes: replay } : undefined);
+  }
+
+  private closeFile(file: FollowedFile): void {
+    try {
+      closeSync(file.fd);
+    } catch {
+      // Ignore close errors
+    }
+  }
+
+  /**
+   * Read from the last offset to the current end of the file
+   * Returns false once the file has been removed.
+   */
+  private readAvailable(file: FollowedFile): boolean {
+    let size: number;
+    try {
+      const stat = statSync(file.path);
+      if (stat.ino !== file.inode) {
+        // File was replaced; follow the new one from its start
+        this.closeFile(file);
+        file.fd = openSync(file.path, 'r');
+        file.inode = stat.ino;
+        file.offset = 0;
+        file.partial = Buffer.alloc(0);
+      } else if (stat.size < file.offset) {
+        logger.info(`Log file truncated, reading from start: ${file.path}`);
+        file.offset = 0;
+        file.partial = Buffer.alloc(0);
+      }
+      size = stat.size;
+    } catch {
+      // File removed; it is picked up again if it comes back
+      return false;
+    }
+
+    const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+    while (file.offset < size) {
+      const bytesRead = readSync(file.fd, chunk, 0, Math.min(READ_CHUNK_BYTES, size - file.offset), file.offset);
+      if (bytesRead <= 0) break;
+      file.offset += bytesRead;
+      this.emit(file, chunk.subarray(0, bytesRead));
+      file.checkpointDirty = true;
+    }
+    return true;
+  }
+
+  /**
+   * Split bytes into complete lines, keeping any trailing partial line for the next read
+   * Splitting on the newline byte keeps multi-byte characters intact across chunks.
+   */
+  private emit(file: FollowedFile, bytes: Buffer): void {
+    const data = file.partial.length > 0 ? Buffer.concat([file.partial, bytes]) : Buffer.from(bytes);
+    const end = data.lastIndexOf(NEWLINE);
+
+    if (end < 0) {
+      file.partial = data.length > MAX_PARTIAL_LINE_BYTES ? Buffer.alloc(0) : data;
+      return;
+    }
+    file.partial = data.subarray(end + 1);
+
+    const replaying = file.replayUntil !== null && file.offset - file.partial.length <= file.replayUntil;
+
+    for (const line of data.subarray(0, end).toString('utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      if (replaying && this.isBeforeBackfill(line)) continue;
+      this.lastLineAt = Date.now();
+      this.onLine(line);
+    }
+
+    if (!replaying) {
+      file.replayUntil = null;
+    }
+  }
+
+  private isBeforeBackfill(line: string): boolean {
+    const time = this.lineTime?.(line);
+    return !!time && time < this.replaySince;
+  }
+
+  /**
+   * Record the offset of the last complete line read from a file
+   */
+  private saveCheckpoint(file: FollowedFile): void {
+    if (!file.checkpointDirty) return;
+    this.checkpoints.set(file.path, file.inode, file.offset - file.partial.length);
+    file.checkpointDirty = false;
+    this.lastCheckpointAt = 0;
+  }
+
+  /**
+   * Persist checkpoints, at most every few seconds unless forced
+   */
+  private saveCheckpoints(force: boolean): void {
+    if (!force && Date.now() - this.lastCheckpointAt < CHECKPOINT_INTERVAL_MS) return;
+
+    let dirty = force;
+    for (const file of this.files.values()) {
+      if (file.checkpointDirty || force) {
+        this.checkpoints.set(file.path, file.inode, file.offset - file.partial.length);
+        file.checkpointDirty = false;
+        dirty = true;
+      }
+    }
+    if (!dirty && this.lastCheckpointAt !== 0) return;
+
+    this.checkpoints.save();
+    this.lastCheckpointAt = Date.now();
+  }
+}
@@ -1,5 +1,34 @@
-import { spawn, ChildProcess } from 'child_process';
-import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { LogTailer, LogTailerOptions, LogTailerStatus } from './log-tailer.js';
+import { LogParser, LogParserRegistry, BUILTIN_PARSERS, loadParserModule } from './log-parsers.js';
+import { logger } from './logger.js';
+import type { ConversationType } from './channels.js';
+import type { BrowserAction } from './types.js';
+
+// A tool start with no matching end after this long is reported as timed out
+const TOOL_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Cap on tracked in-flight tool calls; the oldest are reported as timed out first
+const MAX_PENDING_TOOLS = 500;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// OpenClaw can log the same inbound message more than once (retries, reconnects);
+// repeats of a fingerprint within this window are dropped
+const DEDUPE_WINDOW_MS = 10 * 60 * 1000;
+const MAX_SEEN_MESSAGES = 1000;
+
+/**
+ * Tool arguments parsed from debug log lines
+ * Only used for local classification; never put in outgoing events.
+ */
+export interface ToolArgs {
+  command?: string;
+  path?: string;
+  url?: string;
+  // Browser tool calls (`action` / `request` arguments)
+  browser?: BrowserAction;
+}
 
 export interface ToolExecutionEvent {
   eventType: 'tool_execution';
@@ -8,6 +37,9 @@ export interface ToolExecutionEvent {
   toolCallId: string;
   timestamp: string;
   duration?: number;
+  args?: ToolArgs;
+  // 'timed_out' when the start was seen but no end arrived
+  status: 'completed' | 'timed_out';
 }
 
 export interface InboundMessageEvent {
@@ -16,178 +48,313 @@ export interface InboundMessageEvent {
   to: string;
   body: string;
   timestamp: string;
+  // Sender-side message time, used for dedupe
+  sentAt?: number;
+  channel: string;
+  conversation?: ConversationType;
+}
+
+export interface OutboundMessageEvent {
+  eventType: 'outbound_message';
+  to: string;
+  body: string;
+  timestamp: string;
   channel: string;
+  conversation?: ConversationType;
+}
+
+export interface RunLifecycleEvent {
+  eventType: 'run_lifecycle';
+  action: 'start' | 'end';
+  runId: string;
+  sessionId?: string;
+  timestamp: string;
+}
+
+export interface ModelErrorEvent {
+  eventType: 'model_error';
+  provider?: string;
+  model?: string;
+  status?: number;
+  timestamp: string;
+}
+
+export interface SkillChangeEvent {
+  eventType: 'skill_change';
+  action: 'installed' | 'removed';
+  skillName: string;
+  source?: string;
+  timestamp: string;
+}
+
+export interface ConfigReloadEvent {
+  eventType: 'config_reload';
+  timestamp: string;
+}
+
+export type LogEvent =
+  | ToolExecutionEvent
+  | InboundMessageEvent
+  | OutboundMessageEvent
+  | RunLifecycleEvent
+  | ModelErrorEvent
+  | SkillChangeEvent
+  | ConfigReloadEvent;
+
+/**
+ * One half of a tool call; the watcher pairs starts and ends into ToolExecutionEvents
+ */
+export interface ToolCallLine {
+  eventType: 'tool_call';
+  // 'args' lines carry the arguments of a call logged separately at debug level
+  phase: 'start' | 'end' | 'args';
+  runId: string;
+  toolName: string;
+  toolCallId: string;
+  args?: ToolArgs;
+  timestamp: string;
 }
 
-export type LogEvent = ToolExecutionEvent | InboundMessageEvent;
 export type LogEventCallback = (event: LogEvent) => void;
 
+export interface LogWatcherOptions extends LogTailerOptions {
+  // Local ES module exporting extra parsers
+  parsersModule?: string;
+  // Extra subsystem-name → channel mappings
+  channelMappings?: Record<string, string>;
+}
+
+interface PendingTool {
+  runId: string;
+  toolName: string;
+  startTime: string;
+  args?: ToolArgs;
+  // Wall-clock time the start line was read, so replayed lines don't time out at once
+  seenAt: number;
+}
+
 /**
  * Watches OpenClaw log file for all events
  * Captures tool executions and inbound messages by parsing the log
  */
 export class LogWatcher {
-  private tailProcess: ChildProcess | null = null;
+  private tailer: LogTailer | null = null;
   private callback: LogEventCallback | null = null;
-  private logPath: string;
-  private pendingTools: Map<string, { toolName: string; toolCallId: string; startTime: string }> = new Map();
-  private seenMessageTimestamps: Set<number> = new Set(); // Dedupe messages
-
-  constructor() {
-    // OpenClaw logs to /tmp/openclaw/openclaw-YYYY-MM-DD.log
-    const today = new Date().toISOString().split('T')[0];
-    this.logPath = `/tmp/openclaw/openclaw-${today}.log`;
+  private options: LogWatcherOptions;
+  private parsers: LogParserRegistry;
+  private pendingTools: Map<string, PendingTool> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  // Message fingerprint → when it was last seen, oldest first
+  private seenMessages: Map<string, number> = new Map();
+  private duplicatesSuppressed = 0;
+
+  constructor(options: LogWatcherOptions = {}) {
+    this.options = options;
+    this.parsers = new LogParserRegistry(BUILTIN_PARSERS, options.channelMappings);
   }
 
   /**
    * Start watching the log file
+   * Follows each new dated log file as OpenClaw rotates daily.
    */
-  start(callback: LogEventCallback): void {
+  async start(callback: LogEventCallback): Promise<void> {
     this.callback = callback;
-
-    if (!existsSync(this.logPath)) {
-      console.log(`[Moltwire] Log file not found: ${this.logPath}, will retry...`);
-      setTimeout(() => this.start(callback), 10000);
-      return;
+    if (this.options.parsersModule) {
+      await loadParserModule(this.parsers, this.options.parsersModule);
     }
 
-    console.log(`[Moltwire] Starting log watcher on ${this.logPath}`);
-
-    // Use tail -F to follow the log file (handles rotation)
-    this.tailProcess = spawn('tail', ['-F', '-n', '0', this.logPath]);
-
-    this.tailProcess.stdout?.on('data', (data: Buffer) => {
-      const lines = data.toString().split('\n').filter(line => line.trim());
-      for (const line of lines) {
-        this.parseLine(line);
-      }
-    });
-
-    this.tailProcess.stderr?.on('data', (data: Buffer) => {
-      const msg = data.toString();
-      if (!msg.includes('truncated')) {
-        console.error('[Moltwire] Log watcher error:', msg);
-      }
-    });
-
-    this.tailProcess.on('close', (code) => {
-      console.log(`[Moltwire] Log watcher closed with code ${code}`);
-      if (code !== null && this.callback) {
-        setTimeout(() => this.start(this.callback!), 5000);
-      }
-    });
+    this.tailer = new LogTailer(
+      { ...this.options, lineTime: (line) => this.lineTime(line) },
+      (line) => this.parseLine(line)
+    );
+    this.tailer.start();
+    this.sweepTimer = setInterval(() => this.sweepPendingTools(), SWEEP_INTERVAL_MS);
   }
 
   /**
    * Stop watching
    */
   stop(): void {
-    if (this.tailProcess) {
-      this.tailProcess.kill();
-      this.tailProcess = null;
+    this.tailer?.stop();
+    this.tailer = null;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
     }
+    this.pendingTools.clear();
+    this.seenMessages.clear();
     this.callback = null;
   }
 
   /**
-   * Parse a log line for events
+   * Which files are being followed, how far it has been read and what was parsed
    */
-  private parseLine(line: string): void {
+  getStatus(): LogTailerStatus & { parsers: string[]; parsed: Record<string, number>; duplicatesSuppressed: number } {
+    const tailer = this.tailer?.getStatus() ?? {
+      pattern: this.options.pattern || '',
+      files: [],
+      lastLineAt: null
+    };
+    return {
+      ...tailer,
+      parsers: this.parsers.getNames(),
+      parsed: this.parsers.getCounts(),
+      duplicatesSuppressed: this.duplicatesSuppressed
+    };
+  }
+
+  /**
+   * Add a parser ahead of the built-in ones
+   */
+  registerParser(parser: LogParser): void {
+    this.parsers.register(parser, true);
+  }
+
+  /**
+   * Timestamp of a log line in ms, used to bound replay after downtime
+   */
+  private lineTime(line: string): number | null {
     try {
       const json = JSON.parse(line);
+      const time = Date.parse(json['time'] || json['_meta']?.date);
+      return Number.isNaN(time) ? null : time;
+    } catch {
+      return null;
+    }
+  }
 
-      // Check for inbound message
-      if (json['2'] === 'inbound message' && json['1']?.body) {
-        this.handleInboundMessage(json);
-        return;
-      }
+  /**
+   * Parse a log line for events
+   */
+  private parseLine(line: string): void {
+    const event = this.parsers.parse(line);
+    if (!event) return;
 
-      // Check for tool execution
-      const message = json['1'] as string;
-      if (typeof message === 'string' && message.includes('embedded run tool')) {
-        this.handleToolExecution(json, message);
-        return;
-      }
-    } catch {
-      // Ignore parse errors - not all lines are JSON
+    if (event.eventType === 'tool_call') {
+      this.handleToolCall(event);
+    } else if (event.eventType === 'inbound_message') {
+      this.handleInboundMessage(event);
+    } else {
+      this.callback?.(event);
     }
   }
 
   /**
    * Handle inbound message log entry
    */
-  private handleInboundMessage(json: any): void {
-    const msg = json['1'];
-    const timestamp = json['time'] || json['_meta']?.date;
-    const msgTimestamp = msg.timestamp as number;
-
-    // Dedupe by message timestamp
-    if (this.seenMessageTimestamps.has(msgTimestamp)) {
+  private handleInboundMessage(event: InboundMessageEvent): void {
+    if (this.isDuplicate(event)) {
+      this.duplicatesSuppressed++;
       return;
     }
-    this.seenMessageTimestamps.add(msgTimestamp);
 
-    // Keep set from growing too large
-    if (this.seenMessageTimestamps.size > 1000) {
-      const arr = Array.from(this.seenMessageTimestamps);
-      this.seenMessageTimestamps = new Set(arr.slice(-500));
+    logger.debug('Inbound message from log', { channel: event.channel, length: event.body.length });
+
+    this.callback?.(event);
+  }
+
+  /**
+   * Whether the same message was already seen within the dedupe window
+   * Keyed on channel, sender, send time and body, so different senders
+   * messaging in the same millisecond don't collide.
+   */
+  private isDuplicate(event: InboundMessageEvent): boolean {
+    const now = Date.now();
+
+    // Map is in insertion order, so expired entries are at the front
+    for (const [key, seenAt] of this.seenMessages) {
+      if (now - seenAt < DEDUPE_WINDOW_MS) break;
+      this.seenMessages.delete(key);
+    }
+
+    const fingerprint = createHash('sha256')
+      .update([event.channel, event.from, event.sentAt ?? event.timestamp, event.body].join('\0'))
+      .digest('hex');
+
+    const duplicate = this.seenMessages.has(fingerprint);
+    this.seenMessages.delete(fingerprint);
+    this.seenMessages.set(fingerprint, now);
+
+    while (this.seenMessages.size > MAX_SEEN_MESSAGES) {
+      this.seenMessages.delete(this.seenMessages.keys().next().value as string);
+    }
+    return duplicate;
+  }
+
+  /**
+   * Handle tool execution log entry
+   * Starts and ends are paired by toolCallId, since one run can have
+   * several tools in flight at once.
+   */
+  private handleToolCall(call: ToolCallLine): void {
+    const { runId, toolName, toolCallId, timestamp } = call;
+
+    if (call.phase === 'args') {
+      const pending = this.pendingTools.get(toolCallId);
+      if (pending) {
+        pending.args = { ...pending.args, ...call.args };
+      }
+      return;
     }
 
-    // Determine channel from module name
-    const moduleName = json['0'] || '';
-    let channel = 'unknown';
-    if (moduleName.includes('whatsapp') || moduleName.includes('web-inbound')) {
-      channel = 'whatsapp';
-    } else if (moduleName.includes('telegram')) {
-      channel = 'telegram';
-    } else if (moduleName.includes('discord')) {
-      channel = 'discord';
+    if (call.phase === 'start') {
+      this.pendingTools.delete(toolCallId);
+      this.pendingTools.set(toolCallId, { runId, toolName, startTime: timestamp, args: call.args, seenAt: Date.now() });
+
+      // Evict the oldest in-flight calls rather than grow without bound
+      while (this.pendingTools.size > MAX_PENDING_TOOLS) {
+        const [oldestId, oldest] = this.pendingTools.entries().next().value as [string, PendingTool];
+        this.emitTimedOut(oldestId, oldest);
+      }
+      return;
     }
 
-    console.log('[Moltwire] Inbound message from log:', channel, msg.body?.slice(0, 30) + '...');
+    const pending = this.pendingTools.get(toolCallId);
+    this.pendingTools.delete(toolCallId);
+
+    const duration = pending
+      ? new Date(timestamp).getTime() - new Date(pending.startTime).getTime()
+      : 0;
+
+    logger.debug('Tool execution from log', { tool: toolName, durationMs: duration });
 
     this.callback?.({
-      eventType: 'inbound_message',
-      from: msg.from || '',
-      to: msg.to || '',
-      body: msg.body || '',
-      timestamp: timestamp || new Date(msgTimestamp).toISOString(),
-      channel
+      eventType: 'tool_execution',
+      runId,
+      toolName,
+      toolCallId,
+      timestamp,
+      duration,
+      args: pending?.args,
+      status: 'completed'
     });
   }
 
   /**
-   * Handle tool execution log entry
+   * Report tool starts that never got an end line
    */
-  private handleToolExecution(json: any, message: string): void {
-    const timestamp = json['time'] || json['_meta']?.date;
-
-    // Parse "embedded run tool start: runId=xxx tool=yyy toolCallId=zzz"
-    const startMatch = message.match(/embedded run tool start: runId=(\S+) tool=(\S+) toolCallId=(\S+)/);
-    const endMatch = message.match(/embedded run tool end: runId=(\S+) tool=(\S+) toolCallId=(\S+)/);
-
-    if (startMatch) {
-      const [, runId, toolName, toolCallId] = startMatch;
-      this.pendingTools.set(runId, { toolName, toolCallId, startTime: timestamp });
-    } else if (endMatch) {
-      const [, runId, toolName, toolCallId] = endMatch;
-      const pending = this.pendingTools.get(runId);
-      this.pendingTools.delete(runId);
-
-      const duration = pending
-        ? new Date(timestamp).getTime() - new Date(pending.startTime).getTime()
-        : 0;
-
-      console.log('[Moltwire] Tool execution from log:', toolName, 'duration:', duration, 'ms');
-
-      this.callback?.({
-        eventType: 'tool_execution',
-        runId,
-        toolName,
-        toolCallId,
-        timestamp,
-        duration
-      });
+  private sweepPendingTools(): void {
+    const cutoff = Date.now() - TOOL_TIMEOUT_MS;
+    for (const [toolCallId, pending] of this.pendingTools) {
+      // Map is in insertion order, so everything after this is newer
+      if (pending.seenAt > cutoff) break;
+      this.emitTimedOut(toolCallId, pending);
     }
   }
+
+  private emitTimedOut(toolCallId: string, pending: PendingTool): void {
+    this.pendingTools.delete(toolCallId);
+    logger.debug('Tool execution never finished', { tool: pending.toolName });
+
+    this.callback?.({
+      eventType: 'tool_execution',
+      runId: pending.runId,
+      toolName: pending.toolName,
+      toolCallId,
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - pending.seenAt,
+      args: pending.args,
+      status: 'timed_out'
+    });
+  }
 }
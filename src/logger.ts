@@ -0,0 +1,170 @@
+import { appendFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  // Emit debug-level entries
+  debug?: boolean;
+  // 'text' for `[Moltwire] message key=value`, 'json' for one object per line
+  format?: 'text' | 'json';
+  // Append entries here instead of writing to the console
+  file?: string;
+}
+
+// Fields that may hold message or file content; their values are never logged
+const CONTENT_FIELDS = new Set([
+  'body', 'content', 'text', 'prompt', 'input', 'output', 'args', 'arguments', 'params', 'command', 'payload'
+]);
+
+const SECRET_FIELD = /key|token|secret|password|passwd|authorization|cookie|credential|signature/i;
+
+const SECRET_PATTERNS = [
+  /\bmw_[A-Za-z0-9_-]+/g,
+  /\bBearer\s+[A-Za-z0-9._~+\/=-]+/gi,
+  /\b(sk|pk|api|key|token|secret|password|auth)[-_]?[a-zA-Z0-9]{20,}\b/gi,
+  /([?&](?:key|token|secret|sig|signature|api_key|access_token)=)[^&\s]+/gi
+];
+
+const REDACTED = '[REDACTED]';
+const MAX_VALUE_LENGTH = 500;
+const MAX_DEPTH = 4;
+
+/**
+ * Remove API keys, bearer tokens and similar from free text
+ */
+export function scrubSecrets(text: string): string {
+  let result = text;
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (match, prefix) =>
+      typeof prefix === 'string' && prefix.endsWith('=') ? `${prefix}${REDACTED}` : REDACTED
+    );
+  }
+  return result;
+}
+
+/**
+ * Make log fields safe to write
+ * Content fields are reduced to their length, secret-looking fields are
+ * dropped, errors keep only their message, and strings are scrubbed.
+ */
+export function sanitizeFields(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: sanitizeFields(value.message, depth + 1) };
+  }
+  if (typeof value === 'string') {
+    const scrubbed = scrubSecrets(value);
+    return scrubbed.length > MAX_VALUE_LENGTH ? `${scrubbed.slice(0, MAX_VALUE_LENGTH)}...` : scrubbed;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitizeFields(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (CONTENT_FIELDS.has(key.toLowerCase())) {
+      result[key] = typeof field === 'string' ? `[${field.length} chars]` : REDACTED;
+    } else if (SECRET_FIELD.test(key) && typeof field !== 'boolean' && typeof field !== 'number') {
+      result[key] = REDACTED;
+    } else {
+      result[key] = sanitizeFields(field, depth + 1);
+    }
+  }
+  return result;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return /[\s="]/.test(value) ? JSON.stringify(value) : value;
+  }
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Plugin-wide logger
+ * Everything goes through sanitizeFields, so message content and secrets
+ * can't reach the console or a log file even if a caller passes them.
+ */
+export class Logger {
+  private debugEnabled = false;
+  private format: 'text' | 'json' = 'text';
+  private file: string | null = null;
+
+  configure(options: LoggerOptions): void {
+    this.debugEnabled = !!options.debug;
+    this.format = options.format === 'json' ? 'json' : 'text';
+    this.file = options.file
+      ? options.file.startsWith('~/') ? join(homedir(), options.file.slice(2)) : options.file
+      : null;
+  }
+
+  isDebugEnabled(): boolean {
+    return this.debugEnabled;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    if (this.debugEnabled) {
+      this.write('debug', message, fields);
+    }
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    const safeMessage = scrubSecrets(message);
+    const safeFields = fields ? sanitizeFields(fields) as LogFields : {};
+
+    let line: string;
+    if (this.format === 'json') {
+      line = JSON.stringify({ time: new Date().toISOString(), level, msg: safeMessage, ...safeFields });
+    } else {
+      const pairs = Object.entries(safeFields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${formatValue(value)}`);
+      const prefix = this.file ? `${new Date().toISOString()} ${level.toUpperCase()} ` : '';
+      line = [`${prefix}[Moltwire] ${safeMessage}`, ...pairs].join(' ');
+    }
+
+    if (this.file) {
+      try {
+        const dir = dirname(this.file);
+        if (!existsSync(dir)) {
+          mkdirSync(dir, { recursive: true });
+        }
+        appendFileSync(this.file, line + '\n', 'utf-8');
+        return;
+      } catch {
+        // Fall back to the console if the log file can't be written
+      }
+    }
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+export const logger = new Logger();
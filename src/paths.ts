@@ -0,0 +1,104 @@
+import { realpathSync } from 'fs';
+import { posix } from 'path';
+import { homedir } from 'os';
+
+/**
+ * Where a path is being resolved from
+ */
+export interface PathContext {
+  // Directory relative paths are resolved against
+  cwd?: string;
+  // Agent workspace; reads inside it are workspace-local
+  workspace?: string;
+  // Follow symlinks on disk to the file actually read
+  resolveSymlinks?: boolean;
+}
+
+/**
+ * Expand `~`, `$VAR` and `${VAR}` in a path
+ * Unknown variables are left as they are.
+ */
+export function expandPath(path: string, env: NodeJS.ProcessEnv = process.env): string {
+  let expanded = path;
+  if (expanded === '~' || expanded.startsWith('~/')) {
+    expanded = homedir() + expanded.slice(1);
+  }
+  return expanded.replace(/\$\{(\w+)\}|\$(\w+)/g, (match, braced, bare) => {
+    const name = braced || bare;
+    const value = name === 'HOME' ? env.HOME || homedir() : env[name];
+    return value ?? match;
+  });
+}
+
+/**
+ * Expand and normalize a path, collapsing `.`, `..` and repeated slashes
+ * Relative paths are made absolute when a cwd is known.
+ */
+export function normalizePath(path: string, cwd?: string): string {
+  const expanded = expandPath(path.trim()).replace(/\\/g, '/');
+  if (posix.isAbsolute(expanded)) {
+    return posix.normalize(expanded);
+  }
+  return cwd ? posix.join(normalizePath(cwd), expanded) : posix.normalize(expanded);
+}
+
+/**
+ * Resolve symlinks for as much of an absolute path as exists on disk
+ */
+export function resolveSymlinks(path: string): string {
+  if (!posix.isAbsolute(path)) return path;
+
+  let existing = path;
+  let rest = '';
+  while (existing !== '/') {
+    try {
+      const real = realpathSync(existing);
+      return rest ? posix.join(real, rest) : real;
+    } catch {
+      // Not there (yet); try the parent
+      rest = rest ? posix.join(posix.basename(existing), rest) : posix.basename(existing);
+      existing = posix.dirname(existing);
+    }
+  }
+  return path;
+}
+
+/**
+ * Whether `path` is `dir` or somewhere below it
+ */
+export function isInside(path: string, dir: string): boolean {
+  const base = dir.endsWith('/') ? dir : dir + '/';
+  return path === dir || path.startsWith(base);
+}
+
+/**
+ * Compile a path glob matched segment by segment
+ * `*` and `?` stay within one segment, `**` spans any number of them, and a
+ * trailing `/**` also matches the directory itself. Globs not starting with
+ * `/`, `~` or `**` match at any depth.
+ */
+export function compilePathGlob(glob: string): RegExp {
+  const expanded = expandPath(glob);
+  let source = '';
+  for (let i = 0; i < expanded.length; i++) {
+    const c = expanded[i];
+    if (c === '/' && expanded.slice(i, i + 3) === '/**' && i + 3 === expanded.length) {
+      source += '(?:\\/.*)?';
+      break;
+    }
+    if (c === '*' && expanded[i + 1] === '*') {
+      // `**/` also matches no directories at all
+      const slash = expanded[i + 2] === '/';
+      source += slash ? '(?:.*\\/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^\\/]*';
+    } else if (c === '?') {
+      source += '[^\\/]';
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\\/]/g, '\\$&');
+    }
+  }
+  const anchor = expanded.startsWith('/') || expanded.startsWith('**') ? '^' : '(?:^|\\/)';
+  return new RegExp(anchor + source + '$', 'i');
+}
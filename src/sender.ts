@@ -1,59 +1,92 @@
+import { Backoff, BackoffState, parseRetryAfter } from './backoff.js';
+import { ApiClient, CircuitOpenError } from './api-client.js';
+import { Compression, compress, fallbackCompression, initialCompression } from './compression.js';
+import { deriveSigningKey, signatureHeaders } from './signing.js';
 import type { MoltwireEvent, EventBatchResponse, MoltwireConfig } from './types.js';
+import { logger } from './logger.js';
+
+/**
+ * Result of a send attempt
+ * `retryable` is set when the batch should be re-queued and sent again
+ * (429, 5xx, other client errors, network errors). Only schema rejections
+ * (400, 422) are terminal; 401 leaves it unset but pauses sending.
+ */
+export interface SendResult extends EventBatchResponse {
+  retryable?: boolean;
+}
 
 /**
  * HTTP sender for transmitting events to the Moltwire API
  */
 export class EventSender {
-  private apiEndpoint: string;
-  private apiKey: string;
+  private client: ApiClient;
   private debug: boolean;
+  private backoff: Backoff;
+  private compression: Compression;
+  private signingSecret: string;
+  private signingKey: Buffer;
 
-  constructor(config: MoltwireConfig) {
-    this.apiEndpoint = config.apiEndpoint;
-    this.apiKey = config.apiKey;
+  constructor(config: MoltwireConfig, client: ApiClient = new ApiClient(config)) {
+    this.client = client;
     this.debug = config.debug;
+    this.backoff = new Backoff(config.maxBackoffSeconds * 1000);
+    this.compression = initialCompression(config.compression);
+    this.signingSecret = config.signingSecret;
+    this.signingKey = deriveSigningKey(config.apiKey, config.signingSecret);
   }
 
   /**
    * Send a batch of events to the API
    */
-  async send(events: MoltwireEvent[]): Promise<EventBatchResponse> {
+  async send(events: MoltwireEvent[]): Promise<SendResult> {
     if (events.length === 0) {
       return { accepted: 0, rejected: 0 };
     }
 
-    const url = `${this.apiEndpoint}/v1/events`;
-
-    if (this.debug) {
-      console.log(`[Moltwire] Sending ${events.length} events to ${url}`);
-    }
+    const json = JSON.stringify({ events });
+    const encoding = this.compression;
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-          'User-Agent': 'moltwire-plugin/0.1.0'
-        },
-        body: JSON.stringify({ events })
-      });
+      const body = await compress(json, encoding);
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...signatureHeaders(this.signingKey, body)
+      };
+      if (encoding !== 'none') {
+        headers['Content-Encoding'] = encoding;
+      }
+
+      if (this.debug) {
+        logger.debug(`Sending ${events.length} events to /v1/events (${json.length} -> ${body.length} bytes, ${encoding})`);
+      }
+
+      const response = await this.client.fetch('/v1/events', { method: 'POST', headers, body });
+
+      // Server can't decode this encoding: step down and resend right away
+      if (response.status === 415 && encoding !== 'none') {
+        this.compression = fallbackCompression(encoding, response.headers.get('Accept-Encoding'));
+        logger.warn(`API rejected ${encoding} request body, falling back to ${this.compression}`);
+        return this.send(events);
+      }
 
       if (!response.ok) {
         const errorText = await response.text();
 
         if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          console.warn(`[Moltwire] Rate limited. Retry after ${retryAfter}s`);
+          const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+          const delay = this.backoff.failure('Rate limited', retryAfterMs);
+          logger.warn(`Rate limited. Retrying in ${Math.round(delay / 1000)}s`);
           return {
             accepted: 0,
             rejected: events.length,
-            errors: [{ index: -1, reason: `Rate limited. Retry after ${retryAfter}s` }]
+            errors: [{ index: -1, reason: `Rate limited. Retry after ${Math.round(delay / 1000)}s` }],
+            retryable: true
           };
         }
 
         if (response.status === 401) {
-          console.error('[Moltwire] Invalid API key');
+          logger.error('Invalid API key, sending paused until the key changes');
+          this.backoff.pause('Invalid API key');
           return {
             accepted: 0,
             rejected: events.length,
@@ -61,29 +94,67 @@ export class EventSender {
           };
         }
 
-        console.error(`[Moltwire] API error: ${response.status} ${errorText}`);
+        if (response.status >= 500 || response.status === 408) {
+          const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+          const delay = this.backoff.failure(`API error: ${response.status}`, retryAfterMs);
+          logger.warn(`API error: ${response.status}. Retrying in ${Math.round(delay / 1000)}s`);
+          return {
+            accepted: 0,
+            rejected: events.length,
+            errors: [{ index: -1, reason: `API error: ${response.status}` }],
+            retryable: true
+          };
+        }
+
+        if (response.status === 400 || response.status === 422) {
+          // The batch itself is malformed, sending it again can never succeed
+          logger.error(`API error: ${response.status} ${errorText}`);
+          return {
+            accepted: 0,
+            rejected: events.length,
+            errors: [{ index: -1, reason: `API error: ${response.status}` }]
+          };
+        }
+
+        // 403, 404, 407...: likely misconfiguration or a proxy problem, keep the events
+        const delay = this.backoff.failure(`API error: ${response.status}`);
+        logger.error(`API error: ${response.status} ${errorText}. Retrying in ${Math.round(delay / 1000)}s`);
         return {
           accepted: 0,
           rejected: events.length,
-          errors: [{ index: -1, reason: `API error: ${response.status}` }]
+          errors: [{ index: -1, reason: `API error: ${response.status}` }],
+          retryable: true
         };
       }
 
       const result = await response.json() as EventBatchResponse;
+      this.backoff.success();
 
       if (this.debug) {
-        console.log(`[Moltwire] Sent: accepted=${result.accepted}, rejected=${result.rejected}`);
+        logger.debug(`Sent: accepted=${result.accepted}, rejected=${result.rejected}`);
       }
 
       return result;
     } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        // Not a new failure; events stay buffered until the API is reachable
+        return {
+          accepted: 0,
+          rejected: events.length,
+          errors: [{ index: -1, reason: error.message }],
+          retryable: true
+        };
+      }
+
       const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[Moltwire] Failed to send events: ${message}`);
+      const delay = this.backoff.failure(`Network error: ${message}`);
+      logger.error(`Failed to send events: ${message}. Retrying in ${Math.round(delay / 1000)}s`);
 
       return {
         accepted: 0,
         rejected: events.length,
-        errors: [{ index: -1, reason: `Network error: ${message}` }]
+        errors: [{ index: -1, reason: `Network error: ${message}` }],
+        retryable: true
       };
     }
   }
@@ -92,34 +163,55 @@ export class EventSender {
    * Verify the API key is valid
    */
   async verifyApiKey(): Promise<boolean> {
-    const url = `${this.apiEndpoint}/v1/auth/verify`;
-
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'User-Agent': 'moltwire-plugin/0.1.0'
-        }
-      });
-
+      const response = await this.client.fetch('/v1/auth/verify', { method: 'GET' });
       return response.ok;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Whether sending is currently allowed by the backoff and circuit state
+   */
+  isReady(): boolean {
+    return this.backoff.ready() && this.client.isAvailable();
+  }
+
+  /**
+   * Milliseconds until the next send attempt is allowed
+   */
+  getRetryDelay(): number {
+    return Math.max(this.backoff.delayRemaining(), this.client.getRetryDelay());
+  }
+
+  /**
+   * Get the request body encoding currently in use
+   */
+  getCompression(): Compression {
+    return this.compression;
+  }
+
+  /**
+   * Get the current backoff state
+   */
+  getBackoffState(): BackoffState {
+    return this.backoff.getState();
+  }
+
   /**
    * Update the API key
    */
   setApiKey(apiKey: string): void {
-    this.apiKey = apiKey;
+    this.client.setApiKey(apiKey);
+    this.signingKey = deriveSigningKey(apiKey, this.signingSecret);
+    this.backoff.reset();
   }
 
   /**
    * Update the API endpoint
    */
   setEndpoint(endpoint: string): void {
-    this.apiEndpoint = endpoint;
+    this.client.setEndpoint(endpoint);
   }
 }
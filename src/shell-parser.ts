@@ -0,0 +1,412 @@
+/**
+ * Minimal POSIX-ish shell parser for command classification
+ * Not a full shell grammar: enough to split a command line into the simple
+ * commands it runs, with quoting, operators, wrappers and `sh -c` handled.
+ */
+
+/**
+ * One simple command from a command line
+ */
+export interface ShellCommand {
+  // Program name without its directory, e.g. `curl` for `/usr/bin/curl`
+  name: string;
+  args: string[];
+  // Wrappers stripped from the front, e.g. ['sudo', 'env']
+  prefixes: string[];
+  // Run in the background with `&`
+  background: boolean;
+  // Files written through `>` / `>>` redirects
+  writes: string[];
+  // Files read through `<` redirects
+  reads: string[];
+  // Text fed to stdin by heredocs (`<<EOF`) and here-strings (`<<<`)
+  stdin?: string;
+  // Command whose output is piped into this one
+  pipedFrom?: ShellCommand;
+}
+
+type Token =
+  | { type: 'word'; value: string }
+  | { type: 'op'; value: string };
+
+// Command separators; `&` additionally backgrounds the command before it
+const SEPARATORS = new Set(['&&', '||', ';', '|', '|&', '&', '\n', '(', ')', ';;']);
+
+const OUTPUT_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>']);
+const INPUT_REDIRECTS = new Set(['<']);
+// Followed by a delimiter (heredoc) or a string (here-string), not a file name
+const HEREDOCS = new Set(['<<', '<<-', '<<<']);
+
+// Reserved words that can precede a command without being one
+const KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}', 'time']);
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'fish']);
+
+// Wrappers that run the rest of the line as a command, with options that take a value
+const WRAPPERS: Record<string, Set<string>> = {
+  sudo: new Set(['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U', '-T']),
+  doas: new Set(['-u', '-C']),
+  env: new Set(['-u', '-C', '-S', '--unset', '--chdir']),
+  nohup: new Set(),
+  nice: new Set(['-n', '--adjustment']),
+  ionice: new Set(['-c', '-n', '-p']),
+  setsid: new Set(),
+  stdbuf: new Set(['-i', '-o', '-e']),
+  timeout: new Set(['-k', '-s', '--kill-after', '--signal']),
+  command: new Set(),
+  builtin: new Set(),
+  exec: new Set(['-a']),
+  xargs: new Set(['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s']),
+  caffeinate: new Set(['-t', '-w'])
+};
+
+// Commands that run what follows them as another (usually privileged) user
+const ELEVATORS = new Set(['sudo', 'doas', 'su', 'pkexec', 'run0']);
+
+// Nested shells are only followed this deep
+const MAX_DEPTH = 4;
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Split a command line into words and operators
+ * Command and process substitutions (`$(...)`, backticks, `<(...)`) are
+ * returned separately so the commands inside them can be classified too.
+ * A heredoc's delimiter word is replaced by the heredoc body.
+ */
+function tokenize(input: string): { tokens: Token[]; substitutions: string[] } {
+  const tokens: Token[] = [];
+  const substitutions: string[] = [];
+  let word = '';
+  let inWord = false;
+  let i = 0;
+
+  // Heredocs opened on the current line; their bodies start after its newline
+  const heredocs: { token: Token; stripTabs: boolean }[] = [];
+  let heredocOp: string | undefined;
+
+  const endWord = () => {
+    if (inWord) {
+      const token: Token = { type: 'word', value: word };
+      tokens.push(token);
+      if (heredocOp === '<<' || heredocOp === '<<-') {
+        heredocs.push({ token, stripTabs: heredocOp === '<<-' });
+      }
+      heredocOp = undefined;
+    }
+    word = '';
+    inWord = false;
+  };
+
+  // Replace each pending delimiter with the lines up to it
+  const readHeredocBodies = () => {
+    for (const heredoc of heredocs) {
+      const lines: string[] = [];
+      while (i < input.length) {
+        const end = input.indexOf('\n', i);
+        const line = input.slice(i, end === -1 ? input.length : end);
+        i = end === -1 ? input.length : end + 1;
+        if ((heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.token.value) break;
+        lines.push(line);
+      }
+      heredoc.token.value = lines.join('\n');
+    }
+    heredocs.length = 0;
+  };
+
+  // Read a `$(...)` body starting after the opening paren
+  const readSubstitution = (): string => {
+    let depth = 1;
+    const start = i;
+    while (i < input.length && depth > 0) {
+      const c = input[i];
+      if (c === '\\') {
+        i += 2;
+        continue;
+      }
+      if (c === "'") {
+        const end = input.indexOf("'", i + 1);
+        i = end === -1 ? input.length : end + 1;
+        continue;
+      }
+      if (c === '(') depth++;
+      if (c === ')') depth--;
+      i++;
+    }
+    return input.slice(start, depth === 0 ? i - 1 : i);
+  };
+
+  const readBackticks = (): string => {
+    const end = input.indexOf('`', i);
+    const body = input.slice(i, end === -1 ? input.length : end);
+    i = end === -1 ? input.length : end + 1;
+    return body;
+  };
+
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === '\\') {
+      if (input[i + 1] === '\n') {
+        i += 2;
+        continue;
+      }
+      word += input[i + 1] ?? '';
+      inWord = true;
+      i += 2;
+      continue;
+    }
+
+    if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      word += input.slice(i + 1, end === -1 ? input.length : end);
+      inWord = true;
+      i = end === -1 ? input.length : end + 1;
+      continue;
+    }
+
+    if (c === '"') {
+      inWord = true;
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && '"\\$`\n'.includes(input[i + 1])) {
+          word += input[i + 1];
+          i += 2;
+        } else if (input[i] === '$' && input[i + 1] === '(') {
+          i += 2;
+          const body = readSubstitution();
+          substitutions.push(body);
+          word += `$(${body})`;
+        } else if (input[i] === '`') {
+          i++;
+          const body = readBackticks();
+          substitutions.push(body);
+          word += `\`${body}\``;
+        } else {
+          word += input[i++];
+        }
+      }
+      i++;
+      continue;
+    }
+
+    if ((c === '$' || (!inWord && (c === '<' || c === '>'))) && input[i + 1] === '(') {
+      i += 2;
+      const body = readSubstitution();
+      substitutions.push(body);
+      word += `${c}(${body})`;
+      inWord = true;
+      continue;
+    }
+
+    if (c === '`') {
+      i++;
+      const body = readBackticks();
+      substitutions.push(body);
+      word += `\`${body}\``;
+      inWord = true;
+      continue;
+    }
+
+    if (c === '#' && !inWord) {
+      // Comment to end of line
+      const end = input.indexOf('\n', i);
+      i = end === -1 ? input.length : end;
+      continue;
+    }
+
+    if (c === ' ' || c === '\t' || c === '\r') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    // Operators, longest first; a bare fd number before > or < belongs to the redirect
+    const rest = input.slice(i);
+    const op = rest.match(/^(<<<|<<-|<<|&>>|&>|>>|>\||\|\||&&|\|&|;;|[|&;()<>\n])/)?.[0];
+    if (op) {
+      if (/^\d+$/.test(word) && (op.startsWith('>') || op.startsWith('<'))) {
+        word = '';
+        inWord = false;
+      }
+      endWord();
+      tokens.push({ type: 'op', value: op });
+      i += op.length;
+      if (HEREDOCS.has(op)) {
+        heredocOp = op;
+      } else if (op === '\n' && heredocs.length > 0) {
+        readHeredocBodies();
+      }
+      // Skip the `&` in `2>&1`
+      if ((op === '>' || op === '<') && input[i] === '&') {
+        i++;
+        while (/\d|-/.test(input[i] ?? '')) i++;
+        tokens.pop();
+      }
+      continue;
+    }
+
+    word += c;
+    inWord = true;
+    i++;
+  }
+
+  endWord();
+  readHeredocBodies();
+  return { tokens, substitutions };
+}
+
+/**
+ * Drop wrapper commands (sudo, env, nohup, ...) from the front of argv
+ */
+function stripWrappers(argv: string[]): { argv: string[]; prefixes: string[] } {
+  const prefixes: string[] = [];
+  let rest = argv;
+
+  while (rest.length > 0) {
+    const name = basename(rest[0]);
+    const valueOptions = WRAPPERS[name];
+    if (!valueOptions || isLookup(name, rest.slice(1))) break;
+
+    prefixes.push(name);
+    let i = 1;
+    while (i < rest.length) {
+      const arg = rest[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (name === 'env' && ASSIGNMENT.test(arg)) {
+        i++;
+      } else if (arg.startsWith('-')) {
+        i += valueOptions.has(arg) ? 2 : 1;
+      } else if (name === 'timeout' && /^\d/.test(arg)) {
+        // Duration comes before the command
+        i++;
+        break;
+      } else {
+        break;
+      }
+    }
+    rest = rest.slice(i);
+  }
+
+  return { argv: rest, prefixes };
+}
+
+/**
+ * `command -v` / `command -V` only look a program up, like `type` and `which`
+ */
+function isLookup(name: string, args: string[]): boolean {
+  if (name !== 'command') return false;
+  for (const arg of args) {
+    if (!arg.startsWith('-') || arg === '--') return false;
+    if (/^-[pvV]*[vV][pvV]*$/.test(arg)) return true;
+  }
+  return false;
+}
+
+function basename(program: string): string {
+  return program.slice(program.lastIndexOf('/') + 1);
+}
+
+/**
+ * The `-c` script of a shell invocation, if any (`bash -lc "..."` included)
+ */
+function shellScript(name: string, args: string[]): string | undefined {
+  if (!SHELLS.has(name)) return undefined;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) return undefined;
+    if (/^-[a-z]*c[a-z]*$/i.test(arg)) return args[i + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Parse a command line into the simple commands it runs
+ * Commands inside `sh -c`, `eval` and command substitutions are included.
+ */
+export function parseShellCommand(input: string, depth = 0): ShellCommand[] {
+  if (depth > MAX_DEPTH || !input.trim()) return [];
+
+  const { tokens, substitutions } = tokenize(input);
+  const commands: ShellCommand[] = [];
+  let words: string[] = [];
+  let writes: string[] = [];
+  let reads: string[] = [];
+  let stdin: string | undefined;
+  let pipedFrom: ShellCommand | undefined;
+
+  const finish = (separator?: string) => {
+    const background = separator === '&';
+    const piped = separator === '|' || separator === '|&';
+    let finished: ShellCommand | undefined;
+
+    // Leading assignments and reserved words aren't part of the command
+    let start = 0;
+    while (start < words.length && (ASSIGNMENT.test(words[start]) || KEYWORDS.has(words[start]))) start++;
+    const { argv, prefixes } = stripWrappers(words.slice(start));
+
+    if (argv.length > 0) {
+      const name = basename(argv[0]);
+      const args = argv.slice(1);
+      finished = { name, args, prefixes, background, writes, reads, pipedFrom };
+      if (stdin !== undefined) finished.stdin = stdin;
+      commands.push(finished);
+
+      // `bash <<EOF ... EOF` runs the heredoc as a script
+      const stdinScript = SHELLS.has(name) && args.every(arg => arg.startsWith('-')) ? stdin : undefined;
+      const script = name === 'eval' ? args.join(' ') : shellScript(name, args) ?? stdinScript;
+      if (script) {
+        commands.push(...parseShellCommand(script, depth + 1));
+      }
+    } else if (writes.length > 0 || reads.length > 0 || prefixes.length > 0) {
+      // Bare redirect such as `> file`, or a wrapper on its own such as `sudo -i`
+      commands.push({ name: '', args: [], prefixes, background, writes, reads, pipedFrom });
+    }
+
+    words = [];
+    writes = [];
+    reads = [];
+    stdin = undefined;
+    pipedFrom = piped ? finished : undefined;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'word') {
+      words.push(token.value);
+    } else if (HEREDOCS.has(token.value)) {
+      const body = tokens[i + 1];
+      if (body?.type === 'word') {
+        stdin = body.value;
+        i++;
+      }
+    } else if (OUTPUT_REDIRECTS.has(token.value) || INPUT_REDIRECTS.has(token.value)) {
+      const target = tokens[i + 1];
+      if (target?.type === 'word') {
+        (OUTPUT_REDIRECTS.has(token.value) ? writes : reads).push(target.value);
+        i++;
+      }
+    } else if (SEPARATORS.has(token.value)) {
+      finish(token.value);
+    }
+  }
+  finish();
+
+  for (const substitution of substitutions) {
+    commands.push(...parseShellCommand(substitution, depth + 1));
+  }
+
+  return commands;
+}
+
+/**
+ * Whether a command line runs anything with elevated privileges (sudo, su, doas, ...)
+ */
+export function isElevatedCommand(input: string): boolean {
+  return parseShellCommand(input).some(
+    command => ELEVATORS.has(command.name) || command.prefixes.some(prefix => ELEVATORS.has(prefix))
+  );
+}
@@ -0,0 +1,122 @@
+import { createHmac, hkdfSync, randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import { logger } from './logger.js';
+
+const SEQUENCE_FILE = join(homedir(), '.openclaw', 'moltwire', 'sequence');
+
+// Sequence numbers reserved per file write; an unclean exit skips at most this many
+const RESERVE_BLOCK = 100;
+
+const SIGNATURE_VERSION = 'v1';
+
+/**
+ * Derive the HMAC key for request signing
+ * A separately issued signing secret is used as-is; otherwise a key is
+ * derived from the API key with HKDF so the bearer token itself is never
+ * used as MAC key material.
+ */
+export function deriveSigningKey(apiKey: string, signingSecret?: string): Buffer {
+  if (signingSecret) {
+    return Buffer.from(signingSecret, 'utf-8');
+  }
+  return Buffer.from(hkdfSync('sha256', apiKey, 'moltwire-request-signing', SIGNATURE_VERSION, 32));
+}
+
+/**
+ * Build the signature headers for a request body
+ *
+ * The MAC covers `v1:<timestamp>:<nonce>:` followed by the exact body bytes
+ * sent (after compression), so the backend can reject stale timestamps,
+ * reused nonces and modified payloads before decoding anything.
+ */
+export function signatureHeaders(key: Buffer, body: Buffer | string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = randomBytes(16).toString('hex');
+
+  const signature = createHmac('sha256', key)
+    .update(`${SIGNATURE_VERSION}:${timestamp}:${nonce}:`)
+    .update(body)
+    .digest('hex');
+
+  return {
+    'X-Moltwire-Timestamp': timestamp,
+    'X-Moltwire-Nonce': nonce,
+    'X-Moltwire-Signature': `${SIGNATURE_VERSION}=${signature}`
+  };
+}
+
+/**
+ * Persistent per-agent event sequence number
+ * Every event gets the next number, so the backend can spot gaps
+ * (lost events) and duplicates (replays) in the stream.
+ */
+export class SequenceCounter {
+  private filepath: string;
+  private value: number;
+  // Highest number reserved in the file
+  private reserved: number;
+
+  constructor(filepath = SEQUENCE_FILE) {
+    this.filepath = filepath;
+    this.value = this.load();
+    this.reserved = this.value;
+  }
+
+  /**
+   * Allocate the next sequence number
+   * Numbers come from memory and are reserved in the file a block at a time,
+   * so a restart never reuses one. Reserving re-reads the file first, as the
+   * CLI also allocates numbers when it resubmits dead letters.
+   */
+  next(): number {
+    if (this.value >= this.reserved) {
+      this.value = Math.max(this.value, this.load());
+      this.reserved = this.value + RESERVE_BLOCK;
+      this.save(this.reserved);
+    }
+    return ++this.value;
+  }
+
+  /**
+   * Hand back the unused part of the reservation, e.g. on shutdown
+   * Left alone when another process has reserved numbers since.
+   */
+  release(): void {
+    if (this.reserved > this.value && this.load() === this.reserved) {
+      this.save(this.value);
+    }
+    this.reserved = this.value;
+  }
+
+  /**
+   * Get the last allocated sequence number
+   */
+  current(): number {
+    return this.value;
+  }
+
+  private load(): number {
+    try {
+      if (existsSync(this.filepath)) {
+        const value = parseInt(readFileSync(this.filepath, 'utf-8').trim(), 10);
+        return Number.isFinite(value) && value > 0 ? value : 0;
+      }
+    } catch {
+      // Start from zero on error
+    }
+    return 0;
+  }
+
+  private save(value: number): void {
+    try {
+      if (!existsSync(dirname(this.filepath))) {
+        mkdirSync(dirname(this.filepath), { recursive: true });
+      }
+      writeFileSync(this.filepath, String(value), 'utf-8');
+    } catch (error) {
+      logger.error('Failed to save sequence number', { error });
+    }
+  }
+}
@@ -0,0 +1,366 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { homedir, hostname } from 'os';
+import { createSocket } from 'dgram';
+import { connect } from 'net';
+import { EventBuffer } from './buffer.js';
+import { Backoff, BackoffState } from './backoff.js';
+import { createFetch, FetchFunction } from './http.js';
+import type { MoltwireConfig, MoltwireEvent, SinkConfig } from './types.js';
+import { logger } from './logger.js';
+
+const SINK_BUFFER_DIR = join(homedir(), '.openclaw', 'moltwire', 'sinks');
+
+const APP_NAME = 'moltwire';
+const USER_AGENT = 'moltwire-plugin/0.1.0';
+
+// Syslog facility local0
+const DEFAULT_SYSLOG_FACILITY = 16;
+
+/**
+ * Destination for a copy of the event stream
+ * send() resolves once the whole batch is delivered and throws otherwise.
+ */
+export interface EventSink {
+  readonly name: string;
+  readonly type: SinkConfig['type'];
+  send(events: MoltwireEvent[]): Promise<void>;
+}
+
+export interface SinkStatus {
+  name: string;
+  type: SinkConfig['type'];
+  pending: number;
+  delivered: number;
+  lastDelivery: string | null;
+  backoff: BackoffState;
+}
+
+/**
+ * Resolve the name a sink is reported and buffered under
+ */
+export function sinkName(sink: SinkConfig, index: number): string {
+  return sink.name || `${sink.type}-${index + 1}`;
+}
+
+/**
+ * Map an event to a syslog-style severity (0 = emergency, 7 = debug)
+ */
+function eventSeverity(event: MoltwireEvent): number {
+  if (event.event_type !== 'anomaly_indicator') return 6;
+
+  switch (event.payload.severity) {
+    case 'critical': return 2;
+    case 'high': return 3;
+    case 'medium': return 4;
+    default: return 5;
+  }
+}
+
+/**
+ * Appends events as JSON lines to a local file
+ */
+export class FileSink implements EventSink {
+  readonly type = 'file' as const;
+  readonly name: string;
+  private path: string;
+
+  constructor(name: string, path: string) {
+    this.name = name;
+    this.path = path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+  }
+
+  async send(events: MoltwireEvent[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, events.map(e => JSON.stringify(e) + '\n').join(''), 'utf-8');
+  }
+}
+
+/**
+ * POSTs `{ events }` batches to an HTTPS endpoint
+ */
+export class WebhookSink implements EventSink {
+  readonly type = 'webhook' as const;
+  readonly name: string;
+  private url: string;
+  private headers: Record<string, string>;
+  private fetchImpl: FetchFunction;
+
+  constructor(name: string, url: string, headers: Record<string, string> = {}, fetchImpl: FetchFunction = fetch) {
+    this.name = name;
+    this.url = url;
+    this.headers = headers;
+    this.fetchImpl = fetchImpl;
+  }
+
+  async send(events: MoltwireEvent[]): Promise<void> {
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        ...this.headers
+      },
+      body: JSON.stringify({ events })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Sends RFC 5424 syslog messages over UDP or TCP
+ * TCP uses octet-counting framing (RFC 6587).
+ */
+export class SyslogSink implements EventSink {
+  readonly type = 'syslog' as const;
+  readonly name: string;
+  private host: string;
+  private port: number;
+  private protocol: 'udp' | 'tcp';
+  private facility: number;
+  private hostname = hostname();
+
+  constructor(name: string, host: string, port: number, protocol: 'udp' | 'tcp', facility: number) {
+    this.name = name;
+    this.host = host;
+    this.port = port;
+    this.protocol = protocol;
+    this.facility = facility;
+  }
+
+  async send(events: MoltwireEvent[]): Promise<void> {
+    const messages = events.map(event => this.format(event));
+    if (this.protocol === 'tcp') {
+      await this.sendTcp(messages);
+    } else {
+      await this.sendUdp(messages);
+    }
+  }
+
+  private format(event: MoltwireEvent): string {
+    const priority = this.facility * 8 + eventSeverity(event);
+    return `<${priority}>1 ${event.timestamp} ${this.hostname} ${APP_NAME} ${process.pid} ${event.event_type} - ${JSON.stringify(event)}`;
+  }
+
+  private sendUdp(messages: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = createSocket(this.host.includes(':') ? 'udp6' : 'udp4');
+      let remaining = messages.length;
+
+      socket.on('error', (error) => {
+        socket.close();
+        reject(error);
+      });
+
+      for (const message of messages) {
+        socket.send(message, this.port, this.host, (error) => {
+          if (error) {
+            socket.close();
+            reject(error);
+          } else if (--remaining === 0) {
+            socket.close();
+            resolve();
+          }
+        });
+      }
+    });
+  }
+
+  private sendTcp(messages: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = connect({ host: this.host, port: this.port });
+      socket.setTimeout(10000);
+
+      socket.on('connect', () => {
+        const framed = messages.map(m => `${Buffer.byteLength(m)} ${m}`).join('');
+        socket.end(framed, () => resolve());
+      });
+      socket.on('timeout', () => socket.destroy(new Error('Syslog connection timed out')));
+      socket.on('error', reject);
+    });
+  }
+}
+
+/**
+ * Exports events as OpenTelemetry log records over OTLP/HTTP (JSON encoding)
+ */
+export class OtlpSink implements EventSink {
+  readonly type = 'otlp' as const;
+  readonly name: string;
+  private url: string;
+  private serviceName: string;
+  private headers: Record<string, string>;
+  private fetchImpl: FetchFunction;
+
+  constructor(
+    name: string,
+    endpoint: string,
+    serviceName: string,
+    headers: Record<string, string> = {},
+    fetchImpl: FetchFunction = fetch
+  ) {
+    this.name = name;
+    this.serviceName = serviceName;
+    this.headers = headers;
+    this.fetchImpl = fetchImpl;
+    const base = endpoint.replace(/\/+$/, '');
+    this.url = base.endsWith('/v1/logs') ? base : `${base}/v1/logs`;
+  }
+
+  async send(events: MoltwireEvent[]): Promise<void> {
+    const body = {
+      resourceLogs: [{
+        resource: {
+          attributes: [{ key: 'service.name', value: { stringValue: this.serviceName } }]
+        },
+        scopeLogs: [{
+          scope: { name: APP_NAME },
+          logRecords: events.map(event => this.toLogRecord(event))
+        }]
+      }]
+    };
+
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        ...this.headers
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP endpoint returned ${response.status}`);
+    }
+  }
+
+  private toLogRecord(event: MoltwireEvent): Record<string, unknown> {
+    // OTLP severity numbers run the opposite way to syslog: 9 = INFO, 13 = WARN, 17 = ERROR, 21 = FATAL
+    const severity = eventSeverity(event);
+    const severityNumber = severity <= 2 ? 21 : severity === 3 ? 17 : severity <= 5 ? 13 : 9;
+    const severityText = severity <= 2 ? 'FATAL' : severity === 3 ? 'ERROR' : severity <= 5 ? 'WARN' : 'INFO';
+
+    const attributes = [
+      { key: 'moltwire.event_id', value: { stringValue: event.event_id } },
+      { key: 'moltwire.event_type', value: { stringValue: event.event_type } },
+      { key: 'moltwire.agent_id', value: { stringValue: event.agent_id } }
+    ];
+    if (event.session_id) {
+      attributes.push({ key: 'moltwire.session_id', value: { stringValue: event.session_id } });
+    }
+
+    return {
+      timeUnixNano: `${BigInt(new Date(event.timestamp).getTime()) * 1000000n}`,
+      severityNumber,
+      severityText,
+      body: { stringValue: JSON.stringify(event.payload) },
+      attributes
+    };
+  }
+}
+
+/**
+ * Create a sink from its configuration
+ */
+export function createSink(sink: SinkConfig, index: number, config: MoltwireConfig): EventSink {
+  const name = sinkName(sink, index);
+
+  switch (sink.type) {
+    case 'file':
+      return new FileSink(name, sink.path);
+    case 'webhook':
+      return new WebhookSink(name, sink.url, sink.headers, createFetch(config));
+    case 'syslog':
+      return new SyslogSink(
+        name,
+        sink.host,
+        sink.port ?? 514,
+        sink.protocol ?? 'udp',
+        sink.facility ?? DEFAULT_SYSLOG_FACILITY
+      );
+    case 'otlp':
+      return new OtlpSink(name, sink.endpoint, sink.serviceName ?? APP_NAME, sink.headers, createFetch(config));
+    default:
+      throw new Error(`Unknown sink type: ${(sink as { type: string }).type}`);
+  }
+}
+
+/**
+ * Runs one sink with its own durable buffer and retry backoff,
+ * so a slow or failing sink never holds up the others
+ */
+export class SinkRunner {
+  private sink: EventSink;
+  private buffer: EventBuffer;
+  private backoff: Backoff;
+  private delivered = 0;
+  private lastDelivery: number | null = null;
+  private flushing = false;
+
+  constructor(sink: EventSink, config: MoltwireConfig) {
+    this.sink = sink;
+    this.buffer = new EventBuffer(config, join(SINK_BUFFER_DIR, sink.name.replace(/[^a-zA-Z0-9_-]/g, '_')));
+    this.backoff = new Backoff(config.maxBackoffSeconds * 1000);
+  }
+
+  /**
+   * Replay events this sink had not delivered before the last shutdown
+   */
+  start(): void {
+    this.buffer.start();
+  }
+
+  push(event: MoltwireEvent): void {
+    this.buffer.push(event);
+  }
+
+  /**
+   * Deliver buffered events until the buffer is empty or the sink fails
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      while (this.buffer.hasEvents() && this.backoff.ready()) {
+        const { events, confirm, release } = this.buffer.flush();
+        if (events.length === 0) return;
+
+        try {
+          await this.sink.send(events);
+          confirm();
+          this.backoff.success();
+          this.delivered += events.length;
+          this.lastDelivery = Date.now();
+        } catch (error) {
+          release();
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          const delay = this.backoff.failure(message);
+          logger.error(`Sink ${this.sink.name} failed: ${message}. Retrying in ${Math.round(delay / 1000)}s`);
+          return;
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  close(): void {
+    this.buffer.close();
+  }
+
+  getStatus(): SinkStatus {
+    return {
+      name: this.sink.name,
+      type: this.sink.type,
+      pending: this.buffer.size(),
+      delivered: this.delivered,
+      lastDelivery: this.lastDelivery ? new Date(this.lastDelivery).toISOString() : null,
+      backoff: this.backoff.getState()
+    };
+  }
+}
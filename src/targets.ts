@@ -0,0 +1,279 @@
+import { isIP } from 'net';
+import { domainToASCII } from 'url';
+import { parse as parseDomain } from 'tldts';
+import { parseShellCommand, ShellCommand } from './shell-parser.js';
+
+/**
+ * A host a command connects to
+ */
+export interface NetworkTarget {
+  // Lowercase ASCII host (punycode for IDNs), IPv6 without brackets
+  host: string;
+  port?: number;
+  scheme?: string;
+  isIp: boolean;
+  // Loopback, private-range IPs, `localhost` and single-label intranet names
+  isInternal: boolean;
+  // Registrable domain (eTLD+1) from the public suffix list; unset for IPs
+  domain?: string;
+}
+
+const URL_PATTERN = /\b([a-z][a-z0-9+.-]*):\/\/[^\s'"<>`|;&()]+/gi;
+
+// `user@host:path` as used by scp, rsync and git
+const SCP_PATTERN = /^(?:[^@\/\s]+@)?(\[[0-9a-f:.]+\]|[^:\/\s@]+):(?!\/\/)/i;
+
+// `tcp:host:port`, `openssl-connect:host:port`, ... as used by socat
+const SOCAT_PATTERN = /^(?:tcp|tcp4|tcp6|udp|udp4|udp6|openssl|ssl)(?:-connect)?:([^:,]+|\[[^\]]+\]):(\d+)/i;
+
+// Options that take a value, so the value isn't mistaken for a host
+const VALUE_OPTIONS: Record<string, Set<string>> = {
+  curl: new Set(['-o', '-H', '-d', '-X', '-u', '-A', '-e', '-F', '-T', '-b', '-c', '-x', '-w', '-K', '-E', '-m', '-r', '-U', '-z',
+    '--output', '--header', '--data', '--data-raw', '--data-binary', '--data-urlencode', '--request', '--user',
+    '--user-agent', '--referer', '--form', '--upload-file', '--cookie', '--cookie-jar', '--proxy', '--write-out',
+    '--config', '--cert', '--key', '--cacert', '--max-time', '--connect-timeout', '--retry', '--resolve', '--connect-to']),
+  wget: new Set(['-O', '-o', '-P', '-U', '-e', '-t', '-T', '-w', '-i', '-a', '--output-document', '--output-file',
+    '--directory-prefix', '--user-agent', '--header', '--post-data', '--post-file', '--user', '--password', '--tries', '--timeout']),
+  ssh: new Set(['-p', '-i', '-l', '-o', '-F', '-L', '-R', '-D', '-J', '-b', '-c', '-E', '-e', '-m', '-O', '-Q', '-S', '-W', '-w', '-B', '-I']),
+  mosh: new Set(['-p', '--ssh', '--port', '--predict']),
+  nc: new Set(['-p', '-s', '-w', '-e', '-c', '-i', '-q', '-x', '-X', '-O', '-I', '-T', '-V']),
+  telnet: new Set(['-l', '-b', '-e', '-n']),
+  ping: new Set(['-c', '-i', '-I', '-s', '-t', '-W', '-w', '-l', '-p', '-Q', '-S']),
+  dig: new Set(['-b', '-c', '-f', '-k', '-p', '-q', '-t', '-x', '-y']),
+  whois: new Set(['-h', '-p'])
+};
+
+const HOST_PORT_TOOLS = new Set(['nc', 'ncat', 'netcat', 'telnet']);
+const SINGLE_HOST_TOOLS = new Set(['ssh', 'mosh', 'ping', 'ping6', 'traceroute', 'tracepath', 'mtr', 'whois', 'host', 'nslookup', 'dig', 'sftp']);
+const URL_TOOLS = new Set(['curl', 'wget', 'fetch', 'http', 'https', 'xh', 'httpie', 'aria2c', 'lynx', 'w3m']);
+const SCP_TOOLS = new Set(['scp', 'rsync', 'git', 'sftp']);
+
+// Tools where a dotless name is still a host (ssh config aliases, intranet names)
+const ALLOW_SINGLE_LABEL = new Set(['ssh', 'mosh', 'nc', 'ncat', 'netcat', 'telnet', 'ping', 'ping6', 'scp', 'rsync', 'sftp']);
+
+/**
+ * Lowercase, strip brackets and trailing dots, and punycode a host
+ * Returns undefined when it isn't a valid host name or IP.
+ */
+export function normalizeHost(raw: string): string | undefined {
+  let host = raw.trim().replace(/^\[|\]$/g, '').replace(/\.+$/, '');
+  if (!host) return undefined;
+  if (isIP(host)) return host.toLowerCase();
+
+  // IDNA reads bare numbers as IPv4 (`30` → `0.0.0.30`); those are option values, not hosts
+  if (/^[\d.]+$/.test(host)) return undefined;
+
+  host = domainToASCII(host.toLowerCase());
+  if (!host || isIP(host) || !/^[a-z0-9_](?:[a-z0-9_-]*[a-z0-9_])?(?:\.[a-z0-9_](?:[a-z0-9_-]*[a-z0-9_])?)*$/.test(host)) {
+    return undefined;
+  }
+  return host;
+}
+
+function isInternalIp(ip: string): boolean {
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 10 || a === 127 || a === 0 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254) ||
+      (a === 100 && b >= 64 && b <= 127);
+  }
+  const lower = ip.toLowerCase();
+  if (lower.startsWith('::ffff:')) return isInternalIp(lower.slice(7));
+  return lower === '::1' || lower === '::' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/**
+ * Build a target from a host, or undefined if it doesn't look like one
+ * Without a scheme or a tool that takes bare names, the host must end in a
+ * known public suffix so file names aren't taken for hosts.
+ */
+export function toTarget(
+  rawHost: string,
+  extra: { port?: number; scheme?: string; allowSingleLabel?: boolean; requireKnownSuffix?: boolean } = {}
+): NetworkTarget | undefined {
+  const host = normalizeHost(rawHost);
+  if (!host) return undefined;
+
+  if (isIP(host)) {
+    return { host, port: extra.port, scheme: extra.scheme, isIp: true, isInternal: isInternalIp(host) };
+  }
+
+  const parsed = parseDomain(host, { allowPrivateDomains: true });
+  const singleLabel = !host.includes('.');
+  const internal = host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') ||
+    host.endsWith('.internal') || singleLabel;
+
+  if (singleLabel && host !== 'localhost' && !extra.allowSingleLabel) return undefined;
+  if (extra.requireKnownSuffix && !internal && !parsed.isIcann && !parsed.isPrivate) return undefined;
+
+  return {
+    host,
+    port: extra.port,
+    scheme: extra.scheme,
+    isIp: false,
+    isInternal: internal,
+    domain: parsed.domain || undefined
+  };
+}
+
+function fromUrl(raw: string): NetworkTarget | undefined {
+  try {
+    const url = new URL(raw);
+    if (!url.hostname) return undefined;
+    return toTarget(url.hostname, {
+      port: url.port ? Number(url.port) : undefined,
+      scheme: url.protocol.replace(/:$/, ''),
+      allowSingleLabel: true
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split `host`, `host:port`, `[v6]:port` and `user@host`
+ */
+function splitHostPort(raw: string): { host: string; port?: number } {
+  const value = raw.includes('@') ? raw.slice(raw.lastIndexOf('@') + 1) : raw;
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d+))?/);
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] ? Number(bracketed[2]) : undefined };
+  }
+  // A bare IPv6 address has several colons and no port
+  if ((value.match(/:/g) || []).length > 1) {
+    return { host: value };
+  }
+  const [host, port] = value.split('/')[0].split(':');
+  return { host, port: port && /^\d+$/.test(port) ? Number(port) : undefined };
+}
+
+function operandsOf(name: string, args: string[]): string[] {
+  const valueOptions = VALUE_OPTIONS[name === 'ncat' || name === 'netcat' ? 'nc' : name === 'ping6' ? 'ping' : name];
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg.startsWith('-')) {
+      if (valueOptions?.has(arg)) i++;
+      continue;
+    }
+    operands.push(arg);
+  }
+  return operands;
+}
+
+/**
+ * Hosts one shell command connects to
+ */
+export function commandTargets(cmd: ShellCommand): NetworkTarget[] {
+  const name = cmd.name.toLowerCase();
+  const targets: NetworkTarget[] = [];
+  const allowSingleLabel = ALLOW_SINGLE_LABEL.has(name);
+
+  for (const arg of cmd.args) {
+    for (const match of arg.match(URL_PATTERN) || []) {
+      const target = fromUrl(match);
+      if (target) targets.push(target);
+    }
+  }
+
+  const operands = operandsOf(name, cmd.args).filter(arg => !/^[a-z][a-z0-9+.-]*:\/\//i.test(arg));
+
+  if (URL_TOOLS.has(name)) {
+    for (const operand of operands) {
+      const { host, port } = splitHostPort(operand);
+      const target = toTarget(host, { port, scheme: 'http', requireKnownSuffix: true });
+      if (target) targets.push(target);
+    }
+  } else if (HOST_PORT_TOOLS.has(name) && !cmd.args.includes('-l')) {
+    const [host, port] = operands;
+    const target = host && toTarget(host, { port: /^\d+$/.test(port || '') ? Number(port) : undefined, allowSingleLabel });
+    if (target) targets.push(target);
+  } else if (SINGLE_HOST_TOOLS.has(name)) {
+    const hostArg = operands.find(arg => !arg.startsWith('@') && !arg.startsWith('+') && (name !== 'dig' || arg.includes('.')));
+    if (hostArg) {
+      const { host, port } = splitHostPort(hostArg);
+      const portOption = cmd.args.indexOf('-p');
+      const optionPort = portOption >= 0 && /^\d+$/.test(cmd.args[portOption + 1] || '') ? Number(cmd.args[portOption + 1]) : undefined;
+      const target = toTarget(host, {
+        port: port ?? (name === 'ssh' || name === 'mosh' ? optionPort : undefined),
+        scheme: name === 'ssh' || name === 'sftp' ? 'ssh' : undefined,
+        allowSingleLabel
+      });
+      if (target) targets.push(target);
+    }
+    // The resolver queried with `dig @server`
+    if (name === 'dig') {
+      const server = cmd.args.find(arg => arg.startsWith('@'));
+      const resolver = server && toTarget(server.slice(1), { port: 53 });
+      if (resolver) targets.push(resolver);
+    }
+  }
+
+  if (SCP_TOOLS.has(name)) {
+    for (const operand of operands) {
+      const match = operand.match(SCP_PATTERN);
+      const target = match && toTarget(match[1], { scheme: 'ssh', allowSingleLabel });
+      if (target) targets.push(target);
+    }
+  }
+
+  if (name === 'socat') {
+    for (const arg of cmd.args) {
+      const match = arg.match(SOCAT_PATTERN);
+      const target = match && toTarget(match[1], { port: Number(match[2]), allowSingleLabel: true });
+      if (target) targets.push(target);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Every host a command or tool argument connects to
+ * URLs are found anywhere in the text; bare hosts only where a network tool
+ * expects one (`curl example.com`, `ssh host`, `scp f user@host:`, `nc host 80`),
+ * so email addresses and file names aren't mistaken for domains.
+ */
+export function extractTargets(command: string): NetworkTarget[] {
+  const targets: NetworkTarget[] = [];
+  for (const cmd of parseShellCommand(command)) {
+    targets.push(...commandTargets(cmd));
+  }
+  for (const match of command.match(URL_PATTERN) || []) {
+    const target = fromUrl(match);
+    if (target) targets.push(target);
+  }
+
+  const seen = new Set<string>();
+  return targets.filter(target => {
+    const key = `${target.host}:${target.port ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The host, then each parent domain down to the registrable domain
+ * e.g. `a.b.example.co.uk` → `a.b.example.co.uk`, `b.example.co.uk`, `example.co.uk`
+ */
+export function domainHierarchy(host: string): string[] {
+  const normalized = normalizeHost(host);
+  if (!normalized) return [];
+  if (isIP(normalized)) return [normalized];
+
+  const registrable = parseDomain(normalized, { allowPrivateDomains: true }).domain;
+  const names = [normalized];
+  let current = normalized;
+  while (registrable && current !== registrable && current.includes('.')) {
+    current = current.slice(current.indexOf('.') + 1);
+    names.push(current);
+  }
+  return names;
+}
@@ -1,7 +1,10 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { ApiClient } from './api-client.js';
 import type { MoltwireConfig } from './types.js';
+import { logger } from './logger.js';
+import { domainHierarchy } from './targets.js';
 
 const MOLTWIRE_DIR = join(homedir(), '.openclaw', 'moltwire');
 const SIGNATURES_FILE = join(MOLTWIRE_DIR, 'signatures.json');
@@ -45,8 +48,7 @@ interface CachedData<T> {
  * Threat intelligence polling and matching
  */
 export class ThreatIntelligence {
-  private apiEndpoint: string;
-  private apiKey: string;
+  private client: ApiClient;
   private debug: boolean;
   private pollTimer: ReturnType<typeof setInterval> | null = null;
 
@@ -55,9 +57,8 @@ export class ThreatIntelligence {
   private blockedSkills: Set<string> = new Set();
   private lastSignatureCount: number = 0;
 
-  constructor(config: MoltwireConfig) {
-    this.apiEndpoint = config.apiEndpoint;
-    this.apiKey = config.apiKey;
+  constructor(config: MoltwireConfig, client: ApiClient = new ApiClient(config)) {
+    this.client = client;
     this.debug = config.debug;
 
     // Ensure directory exists
@@ -80,7 +81,7 @@ export class ThreatIntelligence {
     // Initial fetch
     this.fetchAll().catch((err) => {
       if (this.debug) {
-        console.error('[Moltwire] Initial threat fetch failed:', err);
+        logger.error('Initial threat fetch failed', { error: err });
       }
     });
 
@@ -88,13 +89,13 @@ export class ThreatIntelligence {
     this.pollTimer = setInterval(() => {
       this.fetchAll().catch((err) => {
         if (this.debug) {
-          console.error('[Moltwire] Threat poll failed:', err);
+          logger.error('Threat poll failed', { error: err });
         }
       });
     }, POLL_INTERVAL_MS);
 
     if (this.debug) {
-      console.log('[Moltwire] Threat intelligence polling started');
+      logger.info('Threat intelligence polling started');
     }
   }
 
@@ -112,6 +113,13 @@ export class ThreatIntelligence {
    * Fetch all threat data
    */
   private async fetchAll(): Promise<void> {
+    if (!this.client.isAvailable()) {
+      if (this.debug) {
+        logger.info('API unavailable, serving threat data from cache');
+      }
+      return;
+    }
+
     await Promise.all([
       this.fetchSignatures(),
       this.fetchBlockedDomains(),
@@ -124,13 +132,7 @@ export class ThreatIntelligence {
    */
   private async fetchSignatures(): Promise<void> {
     try {
-      const response = await fetch(`${this.apiEndpoint}/v1/threats/signatures`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'User-Agent': 'moltwire-plugin/0.1.0'
-        }
-      });
+      const response = await this.client.fetch('/v1/threats/signatures', { method: 'GET' });
 
       if (!response.ok) {
         throw new Error(`API returned ${response.status}`);
@@ -144,11 +146,11 @@ export class ThreatIntelligence {
       this.cacheData(SIGNATURES_FILE, data.signatures);
 
       if (this.debug) {
-        console.log(`[Moltwire] Fetched ${data.signatures.length} threat signatures`);
+        logger.info(`Fetched ${data.signatures.length} threat signatures`);
       }
     } catch (error) {
       if (this.debug) {
-        console.error('[Moltwire] Failed to fetch signatures:', error);
+        logger.error('Failed to fetch signatures', { error });
       }
     }
   }
@@ -158,13 +160,7 @@ export class ThreatIntelligence {
    */
   private async fetchBlockedDomains(): Promise<void> {
     try {
-      const response = await fetch(`${this.apiEndpoint}/v1/threats/blocked-domains`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'User-Agent': 'moltwire-plugin/0.1.0'
-        }
-      });
+      const response = await this.client.fetch('/v1/threats/blocked-domains', { method: 'GET' });
 
       if (!response.ok) {
         throw new Error(`API returned ${response.status}`);
@@ -177,11 +173,11 @@ export class ThreatIntelligence {
       this.cacheData(BLOCKED_DOMAINS_FILE, data.domains || []);
 
       if (this.debug) {
-        console.log(`[Moltwire] Fetched ${this.blockedDomains.size} blocked domains`);
+        logger.info(`Fetched ${this.blockedDomains.size} blocked domains`);
       }
     } catch (error) {
       if (this.debug) {
-        console.error('[Moltwire] Failed to fetch blocked domains:', error);
+        logger.error('Failed to fetch blocked domains', { error });
       }
     }
   }
@@ -191,13 +187,7 @@ export class ThreatIntelligence {
    */
   private async fetchBlockedSkills(): Promise<void> {
     try {
-      const response = await fetch(`${this.apiEndpoint}/v1/threats/blocked-skills`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'User-Agent': 'moltwire-plugin/0.1.0'
-        }
-      });
+      const response = await this.client.fetch('/v1/threats/blocked-skills', { method: 'GET' });
 
       if (!response.ok) {
         throw new Error(`API returned ${response.status}`);
@@ -210,11 +200,11 @@ export class ThreatIntelligence {
       this.cacheData(BLOCKED_SKILLS_FILE, data.skills || []);
 
       if (this.debug) {
-        console.log(`[Moltwire] Fetched ${this.blockedSkills.size} blocked skills`);
+        logger.info(`Fetched ${this.blockedSkills.size} blocked skills`);
       }
     } catch (error) {
       if (this.debug) {
-        console.error('[Moltwire] Failed to fetch blocked skills:', error);
+        logger.error('Failed to fetch blocked skills', { error });
       }
     }
   }
@@ -264,16 +254,17 @@ export class ThreatIntelligence {
       writeFileSync(filepath, JSON.stringify(cached, null, 2), 'utf-8');
     } catch (error) {
       if (this.debug) {
-        console.error('[Moltwire] Failed to cache data:', error);
+        logger.error('Failed to cache data', { error });
       }
     }
   }
 
   /**
    * Check if a domain is blocked
+   * A blocked domain also blocks its subdomains down to the registrable domain.
    */
   isDomainBlocked(domain: string): boolean {
-    return this.blockedDomains.has(domain);
+    return domainHierarchy(domain).some(name => this.blockedDomains.has(name));
   }
 
   /**
@@ -372,14 +363,14 @@ export class ThreatIntelligence {
    * Update API key (e.g., after reconfiguration)
    */
   setApiKey(apiKey: string): void {
-    this.apiKey = apiKey;
+    this.client.setApiKey(apiKey);
   }
 
   /**
    * Update API endpoint
    */
   setEndpoint(endpoint: string): void {
-    this.apiEndpoint = endpoint;
+    this.client.setEndpoint(endpoint);
   }
 
   /**
@@ -3,22 +3,55 @@ export interface MoltwireConfig {
   enabled: boolean;
   apiKey: string;
   apiEndpoint: string;
+  signingSecret: string;
   flushIntervalSeconds: number;
   flushBatchSize: number;
+  flushBatchBytes: number;
+  compression: 'zstd' | 'gzip' | 'none';
+  bufferMaxBytes: number;
+  bufferMaxAgeHours: number;
+  maxBackoffSeconds: number;
+  offline: boolean;
+  proxyUrl: string;
+  noProxy: string[];
+  caFile: string;
+  clientCertFile: string;
+  clientKeyFile: string;
   redactPatterns: boolean;
   localAnomalyDetection: boolean;
+  anomalyRulesFile: string;
+  classificationRulesFile: string;
+  resolveSymlinks: boolean;
+  trustedSkillSources: string[];
+  logPath: string;
+  logBackfillMinutes: number;
+  logParsersModule: string;
+  channelMappings: Record<string, string>;
   captureToolExecution: boolean;
   captureInboundMessages: boolean;
+  captureOutboundMessages: boolean;
   captureSessionLifecycle: boolean;
   captureConfigChanges: boolean;
+  sinks: SinkConfig[];
   debug: boolean;
+  logFormat: 'text' | 'json';
+  logFile: string;
 }
 
+// Additional event destinations, each with its own buffer and retry state
+export type SinkConfig =
+  | { type: 'file'; name?: string; path: string }
+  | { type: 'webhook'; name?: string; url: string; headers?: Record<string, string> }
+  | { type: 'syslog'; name?: string; host: string; port?: number; protocol?: 'udp' | 'tcp'; facility?: number }
+  | { type: 'otlp'; name?: string; endpoint: string; serviceName?: string; headers?: Record<string, string> };
+
 // Command pattern classification
 export type CommandPattern =
   | 'curl_external'
   | 'curl_internal'
   | 'file_read_home'
+  | 'file_read_workspace'
+  | 'file_read_system'
   | 'file_read_config'
   | 'file_read_credential'
   | 'file_write'
@@ -30,12 +63,56 @@ export type CommandPattern =
   | 'docker_operation'
   | 'browser_navigate'
   | 'browser_form_fill'
+  | 'browser_click'
+  | 'browser_credential_fill'
+  | 'browser_payment_fill'
+  | 'browser_upload'
+  | 'browser_download'
+  | 'browser_evaluate'
+  | 'browser_screenshot'
+  | 'reverse_shell'
+  | 'remote_script_exec'
+  | 'decode_execute'
+  | 'chmod_execute'
+  | 'persistence'
+  | 'inline_code'
+  | 'archive_extract'
+  | 'dns_lookup'
+  | 'package_publish'
   | 'unknown';
 
+// Browser tool actions, from the tool call's structured arguments
+export type BrowserActionKind = 'navigate' | 'click' | 'fill' | 'upload' | 'download' | 'evaluate' | 'screenshot' | 'other';
+
+// Kinds of form field worth flagging when the agent fills them
+export type SensitiveField = 'password' | 'payment';
+
+export interface BrowserAction {
+  kind: BrowserActionKind;
+  url?: string;
+  // Local files handed to a file input
+  files: string[];
+  sensitiveFields: SensitiveField[];
+}
+
+// How risky a command pattern is on its own
+export type PatternSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Every pattern found in a command, plus the one reported as command_pattern.
+// Besides CommandPattern values these can be custom labels from the
+// classification rules file.
+export interface CommandClassification {
+  primary: CommandPattern | string;
+  patterns: (CommandPattern | string)[];
+  // Highest severity among the patterns
+  severity: PatternSeverity;
+}
+
 // Event types
 export type EventType =
   | 'tool_execution'
   | 'inbound_message'
+  | 'outbound_message'
   | 'session_lifecycle'
   | 'config_change'
   | 'anomaly_indicator';
@@ -51,6 +128,9 @@ export type AnomalyIndicatorType =
   | 'bulk_file_access'
   | 'elevation_attempt'
   | 'skill_installs_untrusted'
+  | 'high_risk_command'
+  | 'sensitive_form_fill'
+  | 'external_file_upload'
   | 'matched_threat_signature';
 
 // Base event structure
@@ -60,6 +140,8 @@ export interface BaseEvent {
   timestamp: string;
   agent_id: string;
   session_id?: string;
+  // Per-agent, strictly increasing; gaps mean lost events, repeats mean replays
+  sequence?: number;
 }
 
 // Tool execution event
@@ -68,10 +150,25 @@ export interface ToolExecutionEvent extends BaseEvent {
   payload: {
     tool_name: string;
     tool_category?: string;
-    command_pattern: CommandPattern;
+    command_pattern: CommandPattern | string;
+    // All patterns when the command does several things (e.g. `cd x && curl ...`)
+    command_patterns?: (CommandPattern | string)[];
+    pattern_severity?: PatternSeverity;
+    browser_action?: BrowserActionKind;
+    // Registrable domain (eTLD+1), or the IP, of the first external target
     target_domain?: string;
+    // Every contacted registrable domain / IP
+    target_domains?: string[];
+    target_host?: string;
+    target_port?: number;
+    target_scheme?: string;
+    target_is_ip?: boolean;
+    // Loopback, private network or intranet name
+    target_is_internal?: boolean;
     exit_code?: number;
     duration_ms?: number;
+    // 'timed_out' when the tool started but never reported finishing
+    status?: 'completed' | 'timed_out';
     is_elevated?: boolean;
     is_sandboxed?: boolean;
     skill_source?: string;
@@ -83,6 +180,8 @@ export interface InboundMessageEvent extends BaseEvent {
   event_type: 'inbound_message';
   payload: {
     channel_type: string;
+    // Per-agent hash of the sender, never the raw identifier
+    sender_hash?: string;
     is_dm?: boolean;
     is_from_paired_user?: boolean;
     message_length: number;
@@ -91,6 +190,19 @@ export interface InboundMessageEvent extends BaseEvent {
   };
 }
 
+// Outbound message event (agent replies)
+export interface OutboundMessageEvent extends BaseEvent {
+  event_type: 'outbound_message';
+  payload: {
+    channel_type: string;
+    recipient_hash?: string;
+    is_dm?: boolean;
+    message_length: number;
+    contains_url?: boolean;
+    contains_code_block?: boolean;
+  };
+}
+
 // Session lifecycle event
 export interface SessionLifecycleEvent extends BaseEvent {
   event_type: 'session_lifecycle';
@@ -115,7 +227,8 @@ export interface ConfigChangeEvent extends BaseEvent {
       | 'channel_added'
       | 'channel_removed'
       | 'model_provider_changed'
-      | 'auth_profile_changed';
+      | 'auth_profile_changed'
+      | 'config_reloaded';
     detail?: string;
     skill_name?: string;
     skill_source?: string;
@@ -136,6 +249,7 @@ export interface AnomalyIndicatorEvent extends BaseEvent {
 export type MoltwireEvent =
   | ToolExecutionEvent
   | InboundMessageEvent
+  | OutboundMessageEvent
   | SessionLifecycleEvent
   | ConfigChangeEvent
   | AnomalyIndicatorEvent;
@@ -154,6 +268,8 @@ export interface ToolContext {
   toolCategory?: string;
   command?: string;
   args?: string[];
+  // Structured arguments of a browser tool call
+  browser?: BrowserAction;
   cwd?: string;
   isElevated?: boolean;
   isSandboxed?: boolean;
@@ -163,6 +279,7 @@ export interface ToolContext {
 export interface ToolResult {
   exitCode?: number;
   duration?: number;
+  status?: 'completed' | 'timed_out';
   stdout?: string;
   stderr?: string;
 }
@@ -170,6 +287,8 @@ export interface ToolResult {
 export interface MessageContext {
   channelType: string;
   content: string;
+  // Raw sender (inbound) or recipient (outbound); hashed before it goes into an event
+  peerId?: string;
   isDm?: boolean;
   isFromPairedUser?: boolean;
 }
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AnomalyRule, AnomalyRuleEngine, DEFAULT_RULES, RuleCondition, loadAnomalyRules, validateRule } from '../src/anomaly-rules.js';
+import { EventCollector } from '../src/collector.js';
+import { loadConfig } from '../src/config.js';
+import { isElevatedCommand } from '../src/shell-parser.js';
+import type { MoltwireEvent, ToolExecutionEvent } from '../src/types.js';
+
+const T0 = new Date('2026-03-02T12:00:00').getTime();
+
+function toolEvent(payload: Partial<ToolExecutionEvent['payload']> = {}): MoltwireEvent {
+  return {
+    event_id: 'evt',
+    event_type: 'tool_execution',
+    timestamp: new Date(T0).toISOString(),
+    agent_id: 'agent-test',
+    payload: { tool_name: 'exec', command_pattern: 'unknown', ...payload }
+  };
+}
+
+function rule(overrides: Partial<AnomalyRule>): AnomalyRule {
+  return { id: 'test', indicator: 'high_risk_command', severity: 'high', eventType: 'tool_execution', ...overrides };
+}
+
+// Seconds after T0 at which each event is evaluated, and which of them fire
+function firing(engine: AnomalyRuleEngine, events: [number, MoltwireEvent][]): number[] {
+  return events
+    .filter(([seconds, event]) => engine.evaluate(event, {}, T0 + seconds * 1000).length > 0)
+    .map(([seconds]) => seconds);
+}
+
+describe('AnomalyRuleEngine conditions', () => {
+  const subject = toolEvent({
+    command_pattern: 'file_read_credential',
+    command_patterns: ['file_read_credential', 'curl_external'],
+    target_domain: 'example.com',
+    exit_code: 2
+  });
+
+  const cases: [string, RuleCondition, boolean][] = [
+    ['eq', { field: 'payload.command_pattern', op: 'eq', value: 'file_read_credential' }, true],
+    ['neq', { field: 'payload.command_pattern', op: 'neq', value: 'file_read_credential' }, false],
+    ['in', { field: 'payload.target_domain', op: 'in', value: ['example.com', 'example.org'] }, true],
+    ['not_in', { field: 'payload.target_domain', op: 'not_in', value: ['example.com'] }, false],
+    ['contains on arrays', { field: 'payload.command_patterns', op: 'contains', value: 'curl_external' }, true],
+    ['contains on strings', { field: 'payload.target_domain', op: 'contains', value: 'EXAMPLE' }, true],
+    ['contains_any', { field: 'payload.command_patterns', op: 'contains_any', value: ['ssh_connection', 'curl_external'] }, true],
+    ['matches', { field: 'payload.command_pattern', op: 'matches', value: '^file_read' }, true],
+    ['exists', { field: 'payload.target_domain', op: 'exists' }, true],
+    ['exists: false', { field: 'payload.target_host', op: 'exists', value: false }, true],
+    ['gt', { field: 'payload.exit_code', op: 'gt', value: 1 }, true],
+    ['lte', { field: 'payload.exit_code', op: 'lte', value: 1 }, false],
+    ['context values', { field: '$command', op: 'matches', value: '^cat ' }, true],
+    ['valueFrom', { field: 'payload.target_domain', op: 'in', valueFrom: '$allowed' }, true]
+  ];
+
+  it.each(cases)('%s', (_, condition, expected) => {
+    const engine = new AnomalyRuleEngine([rule({ conditions: [condition] })]);
+    const context = { command: 'cat ~/.ssh/id_rsa', allowed: ['example.com'] };
+
+    expect(engine.evaluate(subject, context, T0).length > 0).toBe(expected);
+  });
+
+  it('requires at least one anyOf condition', () => {
+    const anyOf: RuleCondition[] = [
+      { field: 'payload.target_domain', op: 'exists' },
+      { field: 'payload.command_pattern', op: 'eq', value: 'ssh_connection' }
+    ];
+    const engine = new AnomalyRuleEngine([rule({ anyOf })]);
+
+    expect(engine.evaluate(toolEvent({ target_domain: 'example.com' }), {}, T0)).toHaveLength(1);
+    expect(engine.evaluate(toolEvent(), {}, T0)).toHaveLength(0);
+  });
+
+  it('only matches the configured event types', () => {
+    const engine = new AnomalyRuleEngine([rule({ eventType: ['inbound_message', 'outbound_message'] })]);
+    expect(engine.evaluate(toolEvent(), {}, T0)).toEqual([]);
+  });
+
+  it('renders details without leaking local-only context', () => {
+    const engine = new AnomalyRuleEngine([rule({ detail: 'Contacted {payload.target_domain} at {hour}:00 running {$command}' })]);
+    const [match] = engine.evaluate(toolEvent({ target_domain: 'example.com' }), { command: 'curl secret' }, T0);
+
+    expect(match.detail).toBe('Contacted example.com at 12:00 running ');
+  });
+});
+
+describe('AnomalyRuleEngine evaluators', () => {
+  const event = toolEvent();
+
+  it.each([
+    ['fires once the window threshold is reached, then starts over', { seconds: 60, threshold: 3 }, [0, 10, 20, 30, 40, 50], [20, 50]],
+    ['forgets events that slid out of the window', { seconds: 60, threshold: 3 }, [0, 10, 100, 110, 120], [120]]
+  ] as const)('window %s', (_, window, times, expected) => {
+    const engine = new AnomalyRuleEngine([rule({ window })]);
+    expect(firing(engine, times.map(t => [t, event]))).toEqual(expected);
+  });
+
+  it('counts windows separately per group', () => {
+    const engine = new AnomalyRuleEngine([rule({ window: { seconds: 60, threshold: 2, groupBy: 'payload.target_domain' } })]);
+    const a = toolEvent({ target_domain: 'a.example' });
+    const b = toolEvent({ target_domain: 'b.example' });
+
+    expect(firing(engine, [[0, a], [1, b], [2, a], [3, b]])).toEqual([2, 3]);
+  });
+
+  it('reports the window count in the detail', () => {
+    const engine = new AnomalyRuleEngine([rule({ detail: '{count} calls', window: { seconds: 60, threshold: 2 } })]);
+    engine.evaluate(event, {}, T0);
+    expect(engine.evaluate(event, {}, T0 + 1000)[0].detail).toBe('2 calls');
+  });
+
+  it('stays quiet during the cooldown', () => {
+    const engine = new AnomalyRuleEngine([rule({ cooldownSeconds: 60 })]);
+    expect(firing(engine, [[0, event], [30, event], [59, event], [60, event], [61, event]])).toEqual([0, 60]);
+  });
+
+  it('fires for each value only the first time it is seen', () => {
+    const engine = new AnomalyRuleEngine([rule({ firstSeen: 'payload.target_domain' })], { 'payload.target_domain': ['known.example'] });
+    const events: [number, MoltwireEvent][] = [
+      [0, toolEvent({ target_domain: 'known.example' })],
+      [1, toolEvent({ target_domain: 'new.example' })],
+      [2, toolEvent({ target_domain: 'NEW.example' })],
+      [3, toolEvent()]
+    ];
+
+    expect(firing(engine, events)).toEqual([1]);
+    expect(engine.getSeenValues()).toEqual({ 'payload.target_domain': ['known.example', 'new.example'] });
+  });
+
+  it('fires on a transition to the target value, not while it stays there', () => {
+    const engine = new AnomalyRuleEngine([rule({ transition: { field: 'payload.is_elevated', to: true } })]);
+    const events: [number, MoltwireEvent][] = [
+      [0, toolEvent({ is_elevated: true })],
+      [1, toolEvent({ is_elevated: true })],
+      [2, toolEvent()],
+      [3, toolEvent({ is_elevated: false })],
+      [4, toolEvent({ is_elevated: true })]
+    ];
+
+    // The first event counts as a change from nothing; events without the field are skipped
+    expect(firing(engine, events)).toEqual([0, 4]);
+  });
+
+  it('only fires after a precursor within the follows window', () => {
+    const follows = { conditions: [{ field: 'payload.command_pattern', op: 'eq' as const, value: 'file_read_credential' }], seconds: 120 };
+    const engine = new AnomalyRuleEngine([rule({ follows, conditions: [{ field: 'payload.command_pattern', op: 'eq', value: 'curl_external' }] })]);
+    const read = toolEvent({ command_pattern: 'file_read_credential' });
+    const send = toolEvent({ command_pattern: 'curl_external' });
+
+    // A precursor is used up when the rule fires, and expires after `seconds`
+    expect(firing(engine, [[0, send], [10, read], [20, send], [30, send], [40, read], [200, send]])).toEqual([20]);
+  });
+
+  it('lets one event be its own precursor', () => {
+    const follows = { conditions: [{ field: 'payload.command_patterns', op: 'contains' as const, value: 'file_read_credential' }], seconds: 120 };
+    const engine = new AnomalyRuleEngine([rule({ follows, conditions: [{ field: 'payload.command_patterns', op: 'contains', value: 'curl_external' }] })]);
+
+    expect(engine.evaluate(toolEvent({ command_patterns: ['file_read_credential', 'curl_external'] }), {}, T0)).toHaveLength(1);
+  });
+});
+
+describe('built-in rules', () => {
+  function skillInstall(source?: string): MoltwireEvent {
+    return {
+      event_id: 'evt',
+      event_type: 'config_change',
+      timestamp: new Date(T0).toISOString(),
+      agent_id: 'agent-test',
+      payload: { change_type: 'skill_installed', skill_name: 'weather', skill_source: source }
+    };
+  }
+
+  function indicators(engine: AnomalyRuleEngine, event: MoltwireEvent, context = {}): string[] {
+    return engine.evaluate(event, context, T0).map(match => match.detail);
+  }
+
+  it('flags skills installed from untrusted sources only when the source is known', () => {
+    const engine = new AnomalyRuleEngine(DEFAULT_RULES.filter(r => r.id === 'skill_installs_untrusted'));
+    const context = { trustedSkillSources: ['bundled', 'clawhub'] };
+
+    expect(indicators(engine, skillInstall('github:someone/skill'), context)).toEqual(['Skill installed from untrusted source: github:someone/skill']);
+    expect(indicators(engine, skillInstall('clawhub'), context)).toEqual([]);
+    expect(indicators(engine, skillInstall(), context)).toEqual([]);
+  });
+
+  it('flags a switch to elevated execution derived from the logged command', () => {
+    const collector = new EventCollector('agent-test', loadConfig({}));
+    const engine = new AnomalyRuleEngine(DEFAULT_RULES.filter(r => r.id === 'elevation_transition'));
+    // Mirrors the plugin's log path: elevation comes from the command, unknown when none was logged
+    const run = (command?: string) => {
+      const event = collector.collectToolExecution({
+        toolName: 'exec',
+        command,
+        isElevated: command ? isElevatedCommand(command) : undefined
+      });
+      return indicators(engine, event!);
+    };
+
+    expect(run('ls -la')).toEqual([]);
+    expect(run('sudo systemctl stop firewalld')).toEqual(['Tool execution switched to elevated mode']);
+    expect(run()).toEqual([]);
+    expect(run('doas cat /etc/shadow')).toEqual([]);
+    expect(run('git status')).toEqual([]);
+    expect(run('su -c "id"')).toEqual(['Tool execution switched to elevated mode']);
+  });
+});
+
+describe('loadAnomalyRules', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-anomaly-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges user rules over the built-ins by id', () => {
+    const file = join(dir, 'rules.yaml');
+    writeFileSync(file, [
+      'rules:',
+      '  - id: unusual_hour_activity',
+      '    enabled: false',
+      '  - id: rapid_tool_execution',
+      '    indicator: rapid_tool_execution',
+      '    severity: high',
+      '    window: { seconds: 60, threshold: 5 }',
+      '  - id: broken',
+      '    indicator: high_risk_command',
+      '    severity: urgent'
+    ].join('\n'));
+
+    const rules = loadAnomalyRules(file);
+    const ids = rules.map(r => r.id);
+    expect(ids).not.toContain('unusual_hour_activity');
+    expect(ids).not.toContain('broken');
+    expect(rules.find(r => r.id === 'rapid_tool_execution')).toMatchObject({ severity: 'high', window: { threshold: 5 } });
+    expect(rules).toHaveLength(DEFAULT_RULES.length - 1);
+  });
+
+  it('falls back to the built-ins for malformed files', () => {
+    const file = join(dir, 'rules.json');
+    writeFileSync(file, '{ "rules": 5 }');
+    expect(loadAnomalyRules(file)).toEqual(DEFAULT_RULES);
+  });
+
+  it('validates every built-in rule', () => {
+    for (const builtin of DEFAULT_RULES) {
+      expect(validateRule(builtin)).toEqual([]);
+    }
+    expect(validateRule({ id: 'x', indicator: 'high_risk_command', severity: 'low', conditions: [{ field: 'a', op: 'matches', value: '(' }] }))
+      .toEqual(['conditions[0].value is not a valid regular expression']);
+  });
+});
+
+describe('loadLocalState', () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'moltwire-home-'));
+    mkdirSync(join(home, '.openclaw', 'moltwire'), { recursive: true });
+    vi.stubEnv('HOME', home);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('moves seenDomains from older state files into seenValues', async () => {
+    writeFileSync(join(home, '.openclaw', 'moltwire', 'state.json'), JSON.stringify({ seenDomains: ['example.com'], lastFlushTime: 5 }));
+    const { loadLocalState } = await import('../src/config.js');
+
+    expect(loadLocalState()).toEqual({ seenValues: { 'payload.target_domain': ['example.com'] }, lastFlushTime: 5 });
+  });
+
+  it('keeps seenValues already migrated', async () => {
+    writeFileSync(join(home, '.openclaw', 'moltwire', 'state.json'), JSON.stringify({
+      seenDomains: ['old.example'],
+      seenValues: { 'payload.target_domain': ['new.example'] },
+      lastFlushTime: 0
+    }));
+    const { loadLocalState } = await import('../src/config.js');
+
+    expect(loadLocalState().seenValues).toEqual({ 'payload.target_domain': ['new.example'] });
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient, CircuitOpenError } from '../src/api-client.js';
+
+describe('ApiClient circuit breaker', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  function client(offline = false): ApiClient {
+    return new ApiClient({ apiEndpoint: 'https://api.example.test', apiKey: 'mw_test', offline });
+  }
+
+  async function failTimes(api: ApiClient, count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await api.fetch('/v1/events');
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    for (const name of ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']) {
+      vi.stubEnv(name, '');
+    }
+    fetchMock = vi.fn(async () => new Response('', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('sends the API key and user agent', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    await client().fetch('/v1/auth/verify', { headers: { 'X-Test': '1' } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.test/v1/auth/verify');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer mw_test', 'X-Test': '1' });
+    expect(init.headers['User-Agent']).toMatch(/^moltwire-plugin\//);
+  });
+
+  it('opens after five consecutive failures and fails fast', async () => {
+    const api = client();
+    await failTimes(api, 4);
+    expect(api.getState().status).toBe('closed');
+
+    await failTimes(api, 1);
+    expect(api.getState()).toMatchObject({ status: 'open', consecutiveFailures: 5, lastError: 'API error: 503' });
+    expect(api.isAvailable()).toBe(false);
+
+    await expect(api.fetch('/v1/events')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('counts network errors as failures', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    const api = client();
+
+    for (let i = 0; i < 5; i++) {
+      await expect(api.fetch('/v1/events')).rejects.toThrow('ECONNREFUSED');
+    }
+    expect(api.getState().status).toBe('open');
+  });
+
+  it('does not count 4xx responses as failures', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 404 }));
+    const api = client();
+    await failTimes(api, 10);
+
+    expect(api.getState()).toMatchObject({ status: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('lets a single probe through after the cooldown and closes on success', async () => {
+    const api = client();
+    await failTimes(api, 5);
+    expect(api.getRetryDelay()).toBe(30_000);
+
+    vi.advanceTimersByTime(30_000);
+    expect(api.isAvailable()).toBe(true);
+
+    let finish!: (response: Response) => void;
+    fetchMock.mockImplementationOnce(() => new Promise<Response>(resolve => { finish = resolve; }));
+    const probe = api.fetch('/v1/events');
+
+    expect(api.getState().status).toBe('half_open');
+    await expect(api.fetch('/v1/events')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finish(new Response('{}', { status: 200 }));
+    await probe;
+    expect(api.getState()).toMatchObject({ status: 'closed', consecutiveFailures: 0, degradedSince: null });
+  });
+
+  it('reopens with a doubled cooldown when the probe fails', async () => {
+    const api = client();
+    await failTimes(api, 5);
+    vi.advanceTimersByTime(30_000);
+
+    await api.fetch('/v1/events');
+    expect(api.getState().status).toBe('open');
+    expect(api.getRetryDelay()).toBe(60_000);
+    expect(api.getDegradedDuration()).toBe(30_000);
+  });
+
+  it('never touches the network while offline', async () => {
+    const api = client(true);
+
+    await expect(api.fetch('/v1/events')).rejects.toThrow('Moltwire is in offline mode');
+    expect(api.getState().status).toBe('offline');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    api.setOffline(false);
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    await api.fetch('/v1/events');
+    expect(api.getState()).toMatchObject({ status: 'closed', degradedSince: null });
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Backoff, parseRetryAfter } from '../src/backoff.js';
+import { EventSender } from '../src/sender.js';
+import { loadConfig } from '../src/config.js';
+import type { MoltwireEvent } from '../src/types.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+describe('parseRetryAfter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('30')).toBe(30_000);
+    expect(parseRetryAfter(' 0 ')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:01:00 GMT')).toBe(60_000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 11:00:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('Backoff', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay on each failure up to the cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const backoff = new Backoff(10_000);
+
+    expect([1, 2, 3, 4, 5].map(() => backoff.failure('down'))).toEqual([2000, 4000, 8000, 10_000, 10_000]);
+  });
+
+  it('jitters each delay between half and the whole step', () => {
+    const backoff = new Backoff(60_000);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoff.failure('down')).toBe(1000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoff.failure('down')).toBe(3000);
+  });
+
+  it('prefers Retry-After, capped at the maximum delay', () => {
+    const backoff = new Backoff(60_000);
+    expect(backoff.failure('Rate limited', 7000)).toBe(7000);
+    expect(backoff.failure('Rate limited', 3_600_000)).toBe(60_000);
+  });
+
+  it('blocks attempts until the delay has passed', () => {
+    const backoff = new Backoff(60_000);
+    backoff.failure('Rate limited', 5000);
+
+    expect(backoff.ready()).toBe(false);
+    expect(backoff.delayRemaining()).toBe(5000);
+    expect(backoff.getState()).toMatchObject({ attempts: 1, lastError: 'Rate limited', nextAttemptAt: '2026-03-01T12:00:05.000Z' });
+
+    vi.advanceTimersByTime(5000);
+    expect(backoff.ready()).toBe(true);
+  });
+
+  it('starts over after a success', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const backoff = new Backoff(60_000);
+    backoff.failure('down');
+    backoff.failure('down');
+    backoff.success();
+
+    expect(backoff.ready()).toBe(true);
+    expect(backoff.failure('down')).toBe(2000);
+  });
+
+  it('stays paused until reset', () => {
+    const backoff = new Backoff(60_000);
+    backoff.pause('Invalid API key');
+    backoff.success();
+    vi.advanceTimersByTime(3_600_000);
+    expect(backoff.ready()).toBe(false);
+
+    backoff.reset();
+    expect(backoff.ready()).toBe(true);
+  });
+});
+
+describe('EventSender retries', () => {
+  const events: MoltwireEvent[] = [{
+    event_id: 'evt-1',
+    event_type: 'session_lifecycle',
+    timestamp: NOW.toISOString(),
+    agent_id: 'agent-test',
+    payload: { action: 'start' }
+  }];
+
+  let responses: Response[];
+
+  function sender(): EventSender {
+    return new EventSender(loadConfig({
+      apiKey: 'mw_test',
+      apiEndpoint: 'https://api.example.test',
+      compression: 'none',
+      maxBackoffSeconds: 600,
+      offline: false
+    }));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    for (const name of ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']) {
+      vi.stubEnv(name, '');
+    }
+    responses = [];
+    vi.stubGlobal('fetch', vi.fn(async () => responses.shift() ?? new Response('{}', { status: 500 })));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('waits as long as a 429 Retry-After asks', async () => {
+    responses.push(new Response('slow down', { status: 429, headers: { 'Retry-After': '120' } }));
+    const client = sender();
+
+    const result = await client.send(events);
+    expect(result.retryable).toBe(true);
+    expect(client.isReady()).toBe(false);
+    expect(client.getRetryDelay()).toBe(120_000);
+  });
+
+  it('honors Retry-After on a 503', async () => {
+    responses.push(new Response('maintenance', { status: 503, headers: { 'Retry-After': 'Sun, 01 Mar 2026 12:00:30 GMT' } }));
+    const client = sender();
+
+    expect((await client.send(events)).retryable).toBe(true);
+    expect(client.getRetryDelay()).toBe(30_000);
+  });
+
+  it('keeps other client errors buffered but treats schema rejections as terminal', async () => {
+    responses.push(new Response('forbidden', { status: 403 }));
+    responses.push(new Response('bad batch', { status: 422 }));
+    const client = sender();
+
+    expect((await client.send(events)).retryable).toBe(true);
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect((await client.send(events)).retryable).toBeUndefined();
+  });
+
+  it('pauses on 401 until the key changes', async () => {
+    responses.push(new Response('unauthorized', { status: 401 }));
+    const client = sender();
+
+    expect((await client.send(events)).retryable).toBeUndefined();
+    expect(client.getBackoffState().paused).toBe(true);
+
+    client.setApiKey('mw_other');
+    expect(client.isReady()).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { fieldSensitivity, parseBrowserAction } from '../src/browser-actions.js';
+import { classifyCommand } from '../src/classifier.js';
+import type { ToolContext } from '../src/types.js';
+
+describe('parseBrowserAction', () => {
+  it('reads flat actions and their aliases', () => {
+    expect(parseBrowserAction({ action: 'navigate', targetUrl: 'https://example.com' })).toEqual({
+      kind: 'navigate',
+      url: 'https://example.com',
+      files: [],
+      sensitiveFields: []
+    });
+    expect(parseBrowserAction({ action: 'goto', url: 'https://example.com' })?.kind).toBe('navigate');
+    expect(parseBrowserAction({ action: 'eval', script: '1 + 1' })?.kind).toBe('evaluate');
+  });
+
+  it('reads OpenClaw act requests', () => {
+    const action = parseBrowserAction({
+      action: 'act',
+      targetUrl: 'https://shop.example.com/checkout',
+      request: {
+        kind: 'fill',
+        fields: [
+          { ref: 'e12', name: 'email', value: 'a@example.com' },
+          { ref: 'e13', label: 'Password', value: 'hunter2' }
+        ]
+      }
+    });
+
+    expect(action).toEqual({
+      kind: 'fill',
+      url: 'https://shop.example.com/checkout',
+      files: [],
+      sensitiveFields: ['password']
+    });
+  });
+
+  it('does not keep filled values', () => {
+    const action = parseBrowserAction({ action: 'act', request: { kind: 'type', selector: '#pwd', text: 'hunter2' } });
+
+    expect(action?.sensitiveFields).toEqual(['password']);
+    expect(JSON.stringify(action)).not.toContain('hunter2');
+  });
+
+  it('flags card numbers by field name or by value', () => {
+    const byName = parseBrowserAction({ action: 'act', request: { kind: 'fill', fields: [{ name: 'cc-number', value: 'x' }] } });
+    expect(byName?.sensitiveFields).toEqual(['payment']);
+
+    const byValue = parseBrowserAction({ action: 'act', request: { kind: 'fill', fields: [{ ref: 'e4', value: '4111 1111 1111 1111' }] } });
+    expect(byValue?.sensitiveFields).toEqual(['payment']);
+  });
+
+  it('lists uploaded files', () => {
+    const action = parseBrowserAction({ action: 'upload', paths: ['~/.ssh/id_rsa', '/tmp/report.pdf'] });
+
+    expect(action).toMatchObject({ kind: 'upload', files: ['~/.ssh/id_rsa', '/tmp/report.pdf'] });
+  });
+
+  it('keeps unknown actions as other and ignores non-objects', () => {
+    expect(parseBrowserAction({ action: 'tabs' })?.kind).toBe('other');
+    expect(parseBrowserAction({})).toBeUndefined();
+    expect(parseBrowserAction('navigate')).toBeUndefined();
+    expect(parseBrowserAction(['navigate'])).toBeUndefined();
+  });
+});
+
+describe('fieldSensitivity', () => {
+  it('only treats Luhn-valid digit runs as card numbers', () => {
+    expect(fieldSensitivity('amount', '4111111111111111')).toBe('payment');
+    expect(fieldSensitivity('amount', '4111111111111112')).toBeUndefined();
+    expect(fieldSensitivity('phone', '5551234')).toBeUndefined();
+  });
+
+  it('recognizes one-time codes as passwords', () => {
+    expect(fieldSensitivity('one-time-code')).toBe('password');
+    expect(fieldSensitivity('search')).toBeUndefined();
+  });
+});
+
+describe('classifyCommand for browser tools', () => {
+  it('classifies credential fills', () => {
+    const fill: ToolContext = {
+      toolName: 'browser',
+      browser: { kind: 'fill', url: 'https://bank.example.com/login', files: [], sensitiveFields: ['password'] }
+    };
+    expect(classifyCommand(fill).primary).toBe('browser_credential_fill');
+  });
+
+  it('counts uploads of credential files as credential reads', () => {
+    const upload: ToolContext = {
+      toolName: 'browser',
+      cwd: '/home/agent/work',
+      browser: { kind: 'upload', files: ['~/.ssh/id_rsa'], sensitiveFields: [] }
+    };
+    expect(classifyCommand(upload).patterns).toEqual(['browser_upload', 'file_read_credential']);
+  });
+});
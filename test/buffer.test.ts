@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EventBuffer } from '../src/buffer.js';
+import type { MoltwireConfig, MoltwireEvent } from '../src/types.js';
+
+const CONFIG = {
+  flushBatchSize: 50,
+  flushBatchBytes: 512 * 1024,
+  bufferMaxBytes: 10 * 1024 * 1024,
+  bufferMaxAgeHours: 72
+} as MoltwireConfig;
+
+function event(id: string, timestamp = new Date().toISOString()): MoltwireEvent {
+  return {
+    event_id: id,
+    event_type: 'session_lifecycle',
+    timestamp,
+    agent_id: 'agent-test',
+    payload: { action: 'start' }
+  };
+}
+
+function ids(events: MoltwireEvent[]): string[] {
+  return events.map(e => e.event_id);
+}
+
+describe('EventBuffer', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-buffer-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays unconfirmed events after a restart', () => {
+    const first = new EventBuffer(CONFIG, dir);
+    first.start();
+    first.push(event('a'));
+    first.push(event('b'));
+    first.close();
+
+    const second = new EventBuffer(CONFIG, dir);
+    expect(second.start()).toBe(2);
+    expect(ids(second.flush().events)).toEqual(['a', 'b']);
+  });
+
+  it('removes confirmed events and keeps released ones for the next flush', () => {
+    const buffer = new EventBuffer(CONFIG, dir);
+    buffer.start();
+    buffer.push(event('a'));
+    buffer.push(event('b'));
+
+    const batch = buffer.flush();
+    expect(ids(batch.events)).toEqual(['a', 'b']);
+    // In-flight events are not handed out twice
+    expect(buffer.flush().events).toEqual([]);
+
+    batch.release();
+    const retry = buffer.flush();
+    expect(ids(retry.events)).toEqual(['a', 'b']);
+
+    retry.confirm([retry.events[0]]);
+    expect(buffer.size()).toBe(1);
+    expect(ids(buffer.flush().events)).toEqual(['b']);
+  });
+
+  it('records confirmations in an .ack file that survives a restart', () => {
+    const first = new EventBuffer(CONFIG, dir);
+    first.start();
+    first.push(event('a'));
+    first.push(event('b'));
+    const batch = first.flush();
+    batch.confirm([batch.events[0]]);
+    first.close();
+
+    const ack = readdirSync(dir).find(name => name.endsWith('.ack'));
+    expect(ack).toBeDefined();
+    expect(readFileSync(join(dir, ack!), 'utf-8')).toBe('a\n');
+
+    const second = new EventBuffer(CONFIG, dir);
+    expect(second.start()).toBe(1);
+    expect(ids(second.flush().events)).toEqual(['b']);
+  });
+
+  it('deletes a replayed segment once everything in it is acknowledged', () => {
+    const first = new EventBuffer(CONFIG, dir);
+    first.start();
+    first.push(event('a'));
+    first.flush().confirm();
+    first.close();
+
+    const second = new EventBuffer(CONFIG, dir);
+    expect(second.start()).toBe(0);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('skips torn lines and unreadable segments', () => {
+    writeFileSync(join(dir, '0000000001.jsonl'), JSON.stringify(event('a')) + '\n{"event_id": "tor');
+    // A directory named like a segment cannot be read
+    mkdirSync(join(dir, '0000000002.jsonl'));
+    writeFileSync(join(dir, '0000000003.jsonl'), JSON.stringify(event('c')) + '\n');
+
+    const buffer = new EventBuffer(CONFIG, dir);
+    expect(buffer.start()).toBe(2);
+    expect(ids(buffer.flush().events)).toEqual(['a', 'c']);
+  });
+
+  it('drops events older than the age budget', () => {
+    const buffer = new EventBuffer({ ...CONFIG, bufferMaxAgeHours: 1 }, dir);
+    buffer.start();
+    buffer.push(event('old', new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()));
+    buffer.push(event('new'));
+
+    expect(ids(buffer.flush().events)).toEqual(['new']);
+    expect(buffer.getStats().dropped).toBe(1);
+  });
+
+  it('evicts the oldest segments when over the byte budget', () => {
+    const bytes = Buffer.byteLength(JSON.stringify(event('e00')) + '\n');
+    // Segments hold two events; the budget fits four segments
+    const buffer = new EventBuffer({ ...CONFIG, bufferMaxBytes: bytes * 8 }, dir);
+    buffer.start();
+    for (let i = 0; i < 10; i++) {
+      buffer.push(event(`e${String(i).padStart(2, '0')}`));
+    }
+
+    expect(ids(buffer.flush().events)).toEqual(['e02', 'e03', 'e04', 'e05', 'e06', 'e07', 'e08', 'e09']);
+    expect(buffer.bytes()).toBe(bytes * 8);
+    expect(buffer.getStats().dropped).toBe(2);
+  });
+
+  it('limits a flush by event count and bytes', () => {
+    const buffer = new EventBuffer({ ...CONFIG, flushBatchSize: 3, flushBatchBytes: 1 }, dir);
+    buffer.start();
+    buffer.push(event('a'));
+    buffer.push(event('b'));
+
+    // A single event is always sent even if it exceeds the byte limit
+    expect(ids(buffer.flush().events)).toEqual(['a']);
+
+    const counted = new EventBuffer({ ...CONFIG, flushBatchSize: 1 }, mkdtempSync(join(dir, 'count-')));
+    counted.push(event('x'));
+    counted.push(event('y'));
+    expect(ids(counted.flush().events)).toEqual(['x']);
+  });
+});
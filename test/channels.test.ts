@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PairedSenders, createSenderId, detectChannel, detectConversationType, normalizeSenderId } from '../src/channels.js';
+
+describe('detectChannel', () => {
+  it('maps OpenClaw subsystem names to channels', () => {
+    expect(detectChannel('gateway/channels/whatsapp/inbound')).toBe('whatsapp');
+    expect(detectChannel('web-inbound')).toBe('whatsapp');
+    expect(detectChannel('telegram-bot')).toBe('telegram');
+    expect(detectChannel('gateway:bluebubbles')).toBe('imessage');
+    expect(detectChannel('channels.gmail.poller')).toBe('email');
+    expect(detectChannel('gateway/control-ui')).toBe('webchat');
+  });
+
+  it('does not match fragments inside longer words', () => {
+    expect(detectChannel('gateway/client')).toBe('unknown');
+    expect(detectChannel('slackware')).toBe('unknown');
+  });
+
+  it('prefers a channel logged on the message itself', () => {
+    expect(detectChannel('gateway/whatsapp', 'Telegram')).toBe('telegram');
+    expect(detectChannel('gateway', 'bluebubbles')).toBe('imessage');
+    expect(detectChannel('gateway', 'zalo')).toBe('zalo');
+  });
+
+  it('checks configured mappings before the defaults', () => {
+    expect(detectChannel('gateway/acme-chat', undefined, { 'acme-chat': 'acme' })).toBe('acme');
+    expect(detectChannel('gateway/slack', undefined, { slack: 'work-slack' })).toBe('work-slack');
+  });
+});
+
+describe('detectConversationType', () => {
+  it('uses an explicit chat type first', () => {
+    expect(detectConversationType({ chatType: 'supergroup', from: 'user:1' })).toBe('group');
+    expect(detectConversationType({ chat_type: 'private' })).toBe('dm');
+    expect(detectConversationType({ isGroup: false })).toBe('dm');
+    expect(detectConversationType({ group: { id: 'g1' } })).toBe('group');
+  });
+
+  it('falls back to well-known identifier shapes', () => {
+    expect(detectConversationType({ from: '120363025246125486@g.us' })).toBe('group');
+    expect(detectConversationType({ chatId: -1001234567890 })).toBe('group');
+    expect(detectConversationType({ from: '15551234567@s.whatsapp.net' })).toBe('dm');
+    expect(detectConversationType({ to: 'dm:U123' })).toBe('dm');
+  });
+
+  it('returns undefined when it cannot tell', () => {
+    expect(detectConversationType({ from: 'alice' })).toBeUndefined();
+    expect(detectConversationType({})).toBeUndefined();
+  });
+});
+
+describe('sender identities', () => {
+  it('normalizes the same sender written different ways', () => {
+    for (const id of ['+15551234567', '15551234567@s.whatsapp.net', 'whatsapp:+15551234567', ' 15551234567@c.us ']) {
+      expect(normalizeSenderId(id)).toBe('15551234567');
+    }
+  });
+
+  it('hashes senders stably per agent and channel', () => {
+    // Pinned so a change to the hashing scheme can't silently split sender histories
+    expect(createSenderId('whatsapp', '+15551234567', 'agent-1'))
+      .toBe('8fe5fe98ed9b126ceb873072e5317be7731015d3d476e98b1bde8fc0887e56bd');
+    expect(createSenderId('whatsapp', '15551234567@s.whatsapp.net', 'agent-1'))
+      .toBe(createSenderId('whatsapp', '+15551234567', 'agent-1'));
+
+    expect(createSenderId('whatsapp', '+15551234567', 'agent-2')).not.toBe(createSenderId('whatsapp', '+15551234567', 'agent-1'));
+    expect(createSenderId('signal', '+15551234567', 'agent-1')).not.toBe(createSenderId('whatsapp', '+15551234567', 'agent-1'));
+  });
+});
+
+describe('PairedSenders', () => {
+  let dir: string;
+  let configFile: string;
+  let credentialsDir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-pairing-'));
+    configFile = join(dir, 'openclaw.json');
+    credentialsDir = join(dir, 'credentials');
+    mkdirSync(credentialsDir);
+    vi.useFakeTimers({ now: new Date('2026-03-02T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads allowlists from the config and the pairing store', () => {
+    writeFileSync(configFile, JSON.stringify({
+      channels: {
+        whatsapp: { allowFrom: ['+15551234567'] },
+        telegram: { dm: { allowFrom: [123456789] } },
+        discord: { allowFrom: ['*'] }
+      }
+    }));
+    writeFileSync(join(credentialsDir, 'signal-allowFrom.json'), JSON.stringify({ allowFrom: ['+15559876543'] }));
+    const paired = new PairedSenders(configFile, credentialsDir);
+
+    expect(paired.isPaired('whatsapp', '15551234567@s.whatsapp.net')).toBe(true);
+    expect(paired.isPaired('whatsapp', '+15550000000')).toBe(false);
+    expect(paired.isPaired('telegram', '123456789')).toBe(true);
+    expect(paired.isPaired('discord', 'anyone')).toBe(true);
+    expect(paired.isPaired('signal', '+15559876543')).toBe(true);
+    expect(paired.isPaired('slack', 'U123')).toBeUndefined();
+  });
+
+  it('picks up pairing changes after the reload interval', () => {
+    const store = join(credentialsDir, 'whatsapp-allowFrom.json');
+    writeFileSync(store, JSON.stringify(['+15551234567']));
+    const paired = new PairedSenders(configFile, credentialsDir);
+    expect(paired.isPaired('whatsapp', '+15550000000')).toBe(false);
+
+    writeFileSync(store, JSON.stringify(['+15551234567', '+15550000000']));
+    expect(paired.isPaired('whatsapp', '+15550000000')).toBe(false);
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(paired.isPaired('whatsapp', '+15550000000')).toBe(true);
+  });
+});
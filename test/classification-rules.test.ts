@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadClassificationRules, matchCommandRule, validateClassificationRule } from '../src/classification-rules.js';
+import { classifyCommand, explainCommand } from '../src/classifier.js';
+
+describe('validateClassificationRule', () => {
+  it('accepts a rule with a label and a matcher', () => {
+    expect(validateClassificationRule({ id: 'vault', pattern: 'vault_access', paths: ['~/vault/**'] })).toEqual([]);
+  });
+
+  it('reports every problem with a rule', () => {
+    expect(validateClassificationRule({ pattern: 'Vault Access', severity: 'urgent', hosts: 'x', command: '(' })).toEqual([
+      'missing "id"',
+      '"pattern" must be a lowercase snake_case label',
+      '"severity" must be one of: low, medium, high, critical',
+      '"hosts" must be a list of strings',
+      'invalid "command" regex: ('
+    ]);
+    expect(validateClassificationRule({ id: 'empty', pattern: 'empty' })).toEqual([
+      'needs at least one of "tools", "paths", "hosts" or "command"'
+    ]);
+    expect(validateClassificationRule('rule')).toEqual(['rule must be an object']);
+  });
+});
+
+describe('loadClassificationRules', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-rules-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads YAML rule lists and skips invalid rules', () => {
+    const file = join(dir, 'classification.yaml');
+    writeFileSync(file, [
+      '- id: vault',
+      '  pattern: vault_access',
+      '  severity: high',
+      '  paths: ["~/vault/**"]',
+      '- id: broken',
+      '  pattern: Broken'
+    ].join('\n'));
+
+    const rules = loadClassificationRules(file);
+    expect(rules.map(rule => rule.id)).toEqual(['vault']);
+    expect(rules[0].pathRegexes).toHaveLength(1);
+  });
+
+  it('loads JSON files holding { rules: [...] }', () => {
+    const file = join(dir, 'classification.json');
+    writeFileSync(file, JSON.stringify({ rules: [{ id: 'corp', pattern: 'curl_internal', hosts: ['*.corp.example.com'] }] }));
+
+    expect(loadClassificationRules(file).map(rule => rule.id)).toEqual(['corp']);
+  });
+
+  it('returns no rules for unreadable or malformed files', () => {
+    const file = join(dir, 'classification.json');
+    writeFileSync(file, '{ not json');
+
+    expect(loadClassificationRules(file)).toEqual([]);
+    expect(loadClassificationRules(join(dir, 'missing.yaml'))).toEqual([]);
+  });
+});
+
+describe('user classification rules', () => {
+  let dir: string;
+
+  function rules(list: unknown[]) {
+    const file = join(dir, 'classification.json');
+    writeFileSync(file, JSON.stringify(list));
+    return loadClassificationRules(file);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-rules-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches paths relative to the working directory', () => {
+    const compiled = rules([{ id: 'vault', pattern: 'vault_access', paths: ['/srv/vault/**'] }]);
+
+    expect(matchCommandRule(compiled, { paths: ['secrets/db.json'], cwd: '/srv/vault' })?.id).toBe('vault');
+    expect(matchCommandRule(compiled, { paths: ['secrets/db.json'], cwd: '/srv/app' })).toBeUndefined();
+  });
+
+  it('matches host globs across several labels', () => {
+    const compiled = rules([{ id: 'corp', pattern: 'curl_internal', hosts: ['*.corp.example.com'] }]);
+
+    expect(matchCommandRule(compiled, { hosts: ['api.eu.corp.example.com'] })?.id).toBe('corp');
+    expect(matchCommandRule(compiled, { hosts: ['corp.example.com.evil.net'] })).toBeUndefined();
+  });
+
+  it('replaces the built-in classification of the sub-command it matches', () => {
+    const compiled = rules([
+      { id: 'corp', pattern: 'curl_internal', hosts: ['*.corp.example.com'] },
+      { id: 'deploy', pattern: 'deploy_script', severity: 'high', command: '^deploy\\.sh\\b' }
+    ]);
+
+    const result = explainCommand({ toolName: 'exec', command: 'curl https://api.corp.example.com/v1 && ./deploy.sh prod' }, compiled);
+    expect(result.matches.map(match => [match.pattern, match.rule])).toEqual([
+      ['curl_internal', 'corp'],
+      ['deploy_script', 'deploy']
+    ]);
+    // Custom labels outrank built-in patterns
+    expect(result.primary).toBe('deploy_script');
+    expect(result.severity).toBe('high');
+  });
+
+  it('labels whole tool calls by tool name', () => {
+    const compiled = rules([{ id: 'vault-tool', pattern: 'vault_access', tools: ['vault_read'] }]);
+
+    expect(classifyCommand({ toolName: 'Vault_Read', args: ['db/password'] }, compiled)).toEqual({
+      primary: 'vault_access',
+      patterns: ['vault_access'],
+      severity: 'medium'
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gunzipSync } from 'zlib';
+import { fallbackCompression } from '../src/compression.js';
+import { loadConfig } from '../src/config.js';
+import type { MoltwireEvent } from '../src/types.js';
+
+const EVENT: MoltwireEvent = {
+  event_id: 'evt-1',
+  event_type: 'config_change',
+  timestamp: '2026-03-02T12:00:00.000Z',
+  agent_id: 'agent-test',
+  payload: { change_type: 'config_reloaded' }
+};
+
+// Stand-in for runtimes with zlib.zstdCompress (Node >= 22.15)
+function withZstd(): void {
+  vi.doMock('zlib', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('zlib')>();
+    const zstdCompress = (input: string | Buffer, callback: (error: Error | null, result: Buffer) => void) => {
+      callback(null, Buffer.concat([Buffer.from('ZSTD:'), Buffer.from(input)]));
+    };
+    return { ...actual, zstdCompress };
+  });
+}
+
+describe('fallbackCompression', () => {
+  it('honors the encodings the server says it accepts', () => {
+    expect(fallbackCompression('zstd', 'gzip')).toBe('gzip');
+    expect(fallbackCompression('zstd', 'br, gzip;q=0.5')).toBe('gzip');
+    expect(fallbackCompression('zstd', 'identity')).toBe('none');
+    expect(fallbackCompression('gzip', '')).toBe('none');
+  });
+
+  it('never steps back up to the encoding that was rejected or a stronger one', () => {
+    expect(fallbackCompression('gzip', 'zstd, gzip')).toBe('none');
+  });
+
+  it('steps down to gzip and then identity without an Accept-Encoding header', () => {
+    expect(fallbackCompression('zstd', null)).toBe('gzip');
+    expect(fallbackCompression('gzip', null)).toBe('none');
+    expect(fallbackCompression('none', null)).toBe('none');
+  });
+});
+
+describe('EventSender compression negotiation', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  function config(compression: 'zstd' | 'gzip' | 'none') {
+    return loadConfig({ apiKey: 'mw_test', apiEndpoint: 'https://api.example.test', compression });
+  }
+
+  function accepted(): Response {
+    return new Response(JSON.stringify({ accepted: 1, rejected: 0 }), { status: 200 });
+  }
+
+  function unsupported(acceptEncoding?: string): Response {
+    return new Response('', { status: 415, headers: acceptEncoding ? { 'Accept-Encoding': acceptEncoding } : {} });
+  }
+
+  // Content-Encoding of every request sent so far, 'none' when the body was plain
+  function encodings(): string[] {
+    return fetchMock.mock.calls.map(([, init]) => init.headers['Content-Encoding'] || 'none');
+  }
+
+  beforeEach(() => {
+    for (const name of ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']) {
+      vi.stubEnv(name, '');
+    }
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.doUnmock('zlib');
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('sends zstd when the runtime supports it', async () => {
+    withZstd();
+    const { EventSender } = await import('../src/sender.js');
+    fetchMock.mockResolvedValueOnce(accepted());
+
+    const sender = new EventSender(config('zstd'));
+    expect(await sender.send([EVENT])).toEqual({ accepted: 1, rejected: 0 });
+
+    expect(encodings()).toEqual(['zstd']);
+    expect(fetchMock.mock.calls[0][1].body.subarray(0, 5).toString()).toBe('ZSTD:');
+  });
+
+  it('falls back to gzip after a 415 and keeps using it', async () => {
+    withZstd();
+    const { EventSender } = await import('../src/sender.js');
+    fetchMock
+      .mockResolvedValueOnce(unsupported('gzip'))
+      .mockResolvedValueOnce(accepted())
+      .mockResolvedValueOnce(accepted());
+
+    const sender = new EventSender(config('zstd'));
+    expect(await sender.send([EVENT])).toEqual({ accepted: 1, rejected: 0 });
+    await sender.send([EVENT]);
+
+    expect(encodings()).toEqual(['zstd', 'gzip', 'gzip']);
+    expect(sender.getCompression()).toBe('gzip');
+    expect(JSON.parse(gunzipSync(fetchMock.mock.calls[1][1].body).toString())).toEqual({ events: [EVENT] });
+  });
+
+  it('falls back to an uncompressed body when the server accepts no encoding', async () => {
+    withZstd();
+    const { EventSender } = await import('../src/sender.js');
+    fetchMock
+      .mockResolvedValueOnce(unsupported('identity'))
+      .mockResolvedValueOnce(accepted());
+
+    const sender = new EventSender(config('zstd'));
+    await sender.send([EVENT]);
+
+    expect(encodings()).toEqual(['zstd', 'none']);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ events: [EVENT] });
+  });
+
+  it('steps down one encoding at a time without an Accept-Encoding header', async () => {
+    withZstd();
+    const { EventSender } = await import('../src/sender.js');
+    fetchMock
+      .mockResolvedValueOnce(unsupported())
+      .mockResolvedValueOnce(unsupported())
+      .mockResolvedValueOnce(accepted());
+
+    await new EventSender(config('zstd')).send([EVENT]);
+    expect(encodings()).toEqual(['zstd', 'gzip', 'none']);
+  });
+
+  it('starts with gzip when the runtime has no zstd', async () => {
+    vi.doMock('zlib', async (importOriginal) => ({ ...await importOriginal<typeof import('zlib')>(), zstdCompress: undefined }));
+    const { EventSender } = await import('../src/sender.js');
+    fetchMock.mockResolvedValueOnce(accepted());
+
+    const sender = new EventSender(config('zstd'));
+    await sender.send([EVENT]);
+    expect(encodings()).toEqual(['gzip']);
+  });
+});
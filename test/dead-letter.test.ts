@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { DeadLetterQueue, isTransientRejection } from '../src/dead-letter.js';
+import type { MoltwireEvent } from '../src/types.js';
+
+function event(id: string): MoltwireEvent {
+  return {
+    event_id: id,
+    event_type: 'config_change',
+    timestamp: '2026-03-02T12:00:00.000Z',
+    agent_id: 'agent-test',
+    payload: { change_type: 'config_reloaded' }
+  };
+}
+
+describe('isTransientRejection', () => {
+  it('recognizes reasons worth retrying', () => {
+    expect(isTransientRejection('Rate limit exceeded')).toBe(true);
+    expect(isTransientRejection('Service temporarily unavailable')).toBe(true);
+    expect(isTransientRejection('invalid schema: missing payload')).toBe(false);
+  });
+});
+
+describe('DeadLetterQueue', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-dead-letter-'));
+    file = join(dir, 'dead_letter.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('settleBatch', () => {
+    it('finishes accepted events and dead-letters permanent rejections by index', () => {
+      const queue = new DeadLetterQueue(file);
+      const events = [event('a'), event('b'), event('c')];
+
+      const done = queue.settleBatch(events, {
+        accepted: 2,
+        rejected: 1,
+        errors: [{ index: 1, reason: 'invalid schema' }, { index: 7, reason: 'out of range' }]
+      });
+
+      expect(done.map(e => e.event_id)).toEqual(['a', 'b', 'c']);
+      expect(queue.list().map(entry => [entry.event.event_id, entry.reason])).toEqual([['b', 'invalid schema']]);
+      expect(queue.size()).toBe(1);
+    });
+
+    it('keeps transient rejections for retry until attempts run out', () => {
+      const queue = new DeadLetterQueue(file);
+      const events = [event('a'), event('b')];
+      const result = { accepted: 1, rejected: 1, errors: [{ index: 0, reason: 'rate limit exceeded' }] };
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        expect(queue.settleBatch(events, result).map(e => e.event_id)).toEqual(['b']);
+      }
+      expect(queue.list()).toEqual([]);
+
+      expect(queue.settleBatch(events, result).map(e => e.event_id)).toEqual(['a', 'b']);
+      expect(queue.list().map(entry => entry.reason)).toEqual(['rate limit exceeded']);
+    });
+
+    it('forgets earlier transient rejections once an event is accepted', () => {
+      const queue = new DeadLetterQueue(file);
+      const events = [event('a')];
+      const rejected = { accepted: 0, rejected: 1, errors: [{ index: 0, reason: 'timeout' }] };
+
+      for (let attempt = 1; attempt < 5; attempt++) queue.settleBatch(events, rejected);
+      queue.settleBatch(events, { accepted: 1, rejected: 0 });
+
+      expect(queue.settleBatch(events, rejected)).toEqual([]);
+      expect(queue.list()).toEqual([]);
+    });
+  });
+
+  describe('take and restore', () => {
+    it('keeps dead letters recorded while taken ones are being resubmitted', () => {
+      const plugin = new DeadLetterQueue(file);
+      plugin.add(event('a'), 'invalid schema');
+      plugin.add(event('b'), 'invalid schema');
+
+      const cli = new DeadLetterQueue(file);
+      const taken = cli.take();
+      expect(taken.map(entry => entry.event.event_id)).toEqual(['a', 'b']);
+
+      plugin.add(event('c'), 'payload too large');
+      cli.restore(taken.slice(1));
+
+      expect(cli.list().map(entry => entry.event.event_id)).toEqual(['c', 'b']);
+      expect(existsSync(`${file}.processing`)).toBe(false);
+    });
+
+    it('takes entries left aside by an interrupted run again', () => {
+      const queue = new DeadLetterQueue(file);
+      queue.add(event('a'), 'invalid schema');
+      queue.take();
+
+      queue.add(event('b'), 'invalid schema');
+      expect(new DeadLetterQueue(file).take().map(entry => entry.event.event_id)).toEqual(['b', 'a']);
+    });
+
+    it('returns nothing when the queue is empty', () => {
+      expect(new DeadLetterQueue(file).take()).toEqual([]);
+    });
+  });
+
+  it('skips torn lines', () => {
+    writeFileSync(file, `${JSON.stringify({ event: event('a'), reason: 'x', failedAt: 'now' })}\n{"event":`);
+    expect(new DeadLetterQueue(file).size()).toBe(1);
+  });
+});
+
+describe('moltwire dead-letter', () => {
+  let home: string;
+  let deadLetterFile: string;
+  let output: string[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+  const argv = process.argv;
+
+  async function runCli(...args: string[]): Promise<void> {
+    process.argv = ['node', 'moltwire', ...args];
+    vi.resetModules();
+    await import('../src/cli.js');
+  }
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'moltwire-cli-'));
+    deadLetterFile = join(home, '.openclaw', 'moltwire', 'dead_letter.jsonl');
+    mkdirSync(join(home, '.openclaw', 'moltwire'), { recursive: true });
+    writeFileSync(join(home, '.openclaw', 'openclaw.json'), JSON.stringify({
+      plugins: { entries: { moltwire: { apiKey: 'mw_test', apiEndpoint: 'https://api.example.test' } } }
+    }));
+
+    vi.stubEnv('HOME', home);
+    for (const name of ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']) {
+      vi.stubEnv(name, '');
+    }
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => { output.push(args.join(' ')); });
+  });
+
+  afterEach(() => {
+    process.argv = argv;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('purges dead letters with --clear', async () => {
+    const queue = new DeadLetterQueue(deadLetterFile);
+    queue.add(event('a'), 'invalid schema');
+    queue.add(event('b'), 'invalid schema');
+
+    await runCli('dead-letter', '--clear');
+    await vi.waitFor(() => expect(output.join('\n')).toContain('Removed 2 rejected events'));
+    expect(queue.list()).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('resubmits dead letters with fresh sequence numbers and keeps the ones rejected again', async () => {
+    const queue = new DeadLetterQueue(deadLetterFile);
+    queue.add({ ...event('a'), sequence: 3 }, 'rate limit exceeded');
+    queue.add({ ...event('b'), sequence: 4 }, 'invalid schema');
+
+    fetchMock.mockImplementation(async () => {
+      // The plugin keeps recording rejections while the CLI is sending
+      queue.add(event('c'), 'payload too large');
+      return new Response(JSON.stringify({ accepted: 1, rejected: 1, errors: [{ index: 1, reason: 'still invalid' }] }), { status: 200 });
+    });
+
+    await runCli('dead-letter', '--resubmit');
+    await vi.waitFor(() => expect(output.join('\n')).toContain('1 events still rejected'));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe('https://api.example.test/v1/events');
+    const sent = JSON.parse(init.body).events as MoltwireEvent[];
+    expect(sent.map(e => e.event_id)).toEqual(['a', 'b']);
+    expect(sent.map(e => e.sequence)).toEqual([1, 2]);
+    expect(init.headers['X-Moltwire-Signature']).toMatch(/^v1=[0-9a-f]{64}$/);
+
+    expect(queue.list().map(entry => [entry.event.event_id, entry.reason])).toEqual([
+      ['c', 'payload too large'],
+      ['b', 'still invalid']
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { shouldBypassProxy, validateNetworkOptions } from '../src/http.js';
+
+describe('shouldBypassProxy', () => {
+  it('bypasses everything for a lone wildcard', () => {
+    expect(shouldBypassProxy('https://api.moltwire.com/v1/events', ['*'])).toBe(true);
+  });
+
+  it('matches a hostname and its subdomains, but not look-alikes', () => {
+    const noProxy = ['example.com'];
+    expect(shouldBypassProxy('https://example.com', noProxy)).toBe(true);
+    expect(shouldBypassProxy('https://api.example.com', noProxy)).toBe(true);
+    expect(shouldBypassProxy('https://notexample.com', noProxy)).toBe(false);
+  });
+
+  it('treats leading dots and *. the same as a bare domain', () => {
+    for (const entry of ['.internal.corp', '*.internal.corp']) {
+      expect(shouldBypassProxy('https://svc.internal.corp', [entry])).toBe(true);
+      expect(shouldBypassProxy('https://internal.corp', [entry])).toBe(true);
+      expect(shouldBypassProxy('https://internal.corp.evil.com', [entry])).toBe(false);
+    }
+  });
+
+  it('only bypasses the listed port when one is given', () => {
+    expect(shouldBypassProxy('http://registry.local:5000/v2', ['registry.local:5000'])).toBe(true);
+    expect(shouldBypassProxy('https://registry.local/v2', ['registry.local:5000'])).toBe(false);
+    expect(shouldBypassProxy('https://registry.local/v2', ['registry.local:443'])).toBe(true);
+  });
+
+  it('matches IP addresses exactly and by CIDR block', () => {
+    expect(shouldBypassProxy('http://127.0.0.1:8080', ['127.0.0.1'])).toBe(true);
+    expect(shouldBypassProxy('http://[::1]:8080', ['::1'])).toBe(true);
+    expect(shouldBypassProxy('http://10.20.30.40', ['10.0.0.0/8'])).toBe(true);
+    expect(shouldBypassProxy('http://11.0.0.1', ['10.0.0.0/8'])).toBe(false);
+    expect(shouldBypassProxy('http://[fd00::5]', ['fd00::/8'])).toBe(true);
+    expect(shouldBypassProxy('http://10.example.com', ['10.0.0.0/8'])).toBe(false);
+  });
+
+  it('ignores blank and malformed entries', () => {
+    expect(shouldBypassProxy('https://example.com', ['', '  ', '10.0.0.0/99'])).toBe(false);
+    expect(shouldBypassProxy('not a url', ['*'])).toBe(false);
+  });
+
+  it('is case-insensitive', () => {
+    expect(shouldBypassProxy('https://API.Example.com', [' EXAMPLE.COM '])).toBe(true);
+  });
+});
+
+describe('validateNetworkOptions', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-http-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('accepts readable certificate files given as a pair', () => {
+    writeFileSync(join(dir, 'client.pem'), 'cert');
+    writeFileSync(join(dir, 'client.key'), 'key');
+
+    expect(validateNetworkOptions({
+      proxyUrl: 'http://proxy.corp:3128',
+      clientCertFile: join(dir, 'client.pem'),
+      clientKeyFile: join(dir, 'client.key')
+    })).toEqual([]);
+  });
+
+  it('rejects unreadable mTLS and CA paths', () => {
+    const missing = join(dir, 'missing.pem');
+    expect(validateNetworkOptions({ caFile: missing })).toEqual([`caFile is not readable: ${missing}`]);
+    expect(validateNetworkOptions({ clientCertFile: missing, clientKeyFile: dir })).toEqual([
+      `clientCertFile is not readable: ${missing}`,
+      `clientKeyFile is not readable: ${dir}`
+    ]);
+  });
+
+  it('requires the client certificate and key together', () => {
+    writeFileSync(join(dir, 'client.pem'), 'cert');
+    expect(validateNetworkOptions({ clientCertFile: join(dir, 'client.pem') })).toEqual([
+      'clientCertFile and clientKeyFile must be set together'
+    ]);
+  });
+
+  it('rejects proxy URLs that are not http(s)', () => {
+    expect(validateNetworkOptions({ proxyUrl: 'socks5://proxy:1080' })).toEqual(['proxyUrl must be an http:// or https:// URL']);
+    expect(validateNetworkOptions({ proxyUrl: 'proxy:3128:x' })).toHaveLength(1);
+  });
+});
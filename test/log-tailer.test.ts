@@ -0,0 +1,295 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { appendFileSync, mkdirSync, mkdtempSync, renameSync, rmSync, truncateSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { LogTailer, LogTailerOptions, matchingLogFiles, resolveLogPattern } from '../src/log-tailer.js';
+
+const DAY_AGO = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+
+describe('LogTailer', () => {
+  let dir: string;
+  let lines: string[];
+  let tailers: LogTailer[];
+
+  function follow(options: LogTailerOptions): LogTailer {
+    const tailer = new LogTailer({ checkpointFile: join(dir, 'checkpoints.json'), ...options }, line => lines.push(line));
+    tailers.push(tailer);
+    tailer.start();
+    return tailer;
+  }
+
+  // Run one poll of the log directory
+  function tick(): void {
+    vi.advanceTimersByTime(1000);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-tailer-'));
+    lines = [];
+    tailers = [];
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+  });
+
+  afterEach(() => {
+    for (const tailer of tailers) tailer.stop();
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('following a file', () => {
+    it('starts at the end without backfill and reads appended lines', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, 'before start\n');
+      follow({ pattern: file, backfillMinutes: 0 });
+
+      appendFileSync(file, 'one\ntwo\n');
+      tick();
+      expect(lines).toEqual(['one', 'two']);
+    });
+
+    it('holds a partial trailing line until it is complete', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, '');
+      follow({ pattern: file, backfillMinutes: 0 });
+
+      appendFileSync(file, 'complete\nhalf a');
+      tick();
+      expect(lines).toEqual(['complete']);
+
+      appendFileSync(file, ' line\n');
+      tick();
+      expect(lines).toEqual(['complete', 'half a line']);
+    });
+
+    it('keeps multi-byte characters split across reads intact', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, '');
+      follow({ pattern: file, backfillMinutes: 0 });
+
+      const bytes = Buffer.from('héllo\n');
+      appendFileSync(file, bytes.subarray(0, 2));
+      tick();
+      appendFileSync(file, bytes.subarray(2));
+      tick();
+      expect(lines).toEqual(['héllo']);
+    });
+
+    it('re-reads a truncated file from the start', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, '');
+      follow({ pattern: file, backfillMinutes: 0 });
+
+      appendFileSync(file, 'a fairly long first line\n');
+      tick();
+      truncateSync(file, 0);
+      appendFileSync(file, 'after\n');
+      tick();
+      expect(lines).toEqual(['a fairly long first line', 'after']);
+    });
+
+    it('follows a file renamed away and recreated', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, '');
+      follow({ pattern: file, backfillMinutes: 0 });
+
+      appendFileSync(file, 'old file\n');
+      tick();
+      renameSync(file, `${file}.1`);
+      writeFileSync(file, 'new file\n');
+      tick();
+      appendFileSync(file, 'more\n');
+      tick();
+      expect(lines).toEqual(['old file', 'new file', 'more']);
+    });
+
+    it('drains the previous day\'s file before dropping it', () => {
+      const yesterday = join(dir, 'openclaw-2026-03-01.log');
+      const today = join(dir, 'openclaw-2026-03-02.log');
+      writeFileSync(yesterday, '');
+      const tailer = follow({ pattern: join(dir, 'openclaw-*.log'), backfillMinutes: 0 });
+
+      appendFileSync(yesterday, 'last line before midnight\n');
+      utimesSync(yesterday, DAY_AGO, DAY_AGO);
+      writeFileSync(today, 'first line after midnight\n');
+      tick();
+
+      expect(lines).toEqual(['last line before midnight', 'first line after midnight']);
+      expect(tailer.getStatus().files.map(f => f.path)).toEqual([today]);
+    });
+
+    it('only reports newly followed files at debug level', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, '');
+      follow({ pattern: file, backfillMinutes: 0 });
+
+      expect(log).not.toHaveBeenCalled();
+      log.mockRestore();
+    });
+
+    it('waits for a file that does not exist yet', () => {
+      const file = join(dir, 'openclaw.log');
+      const tailer = follow({ pattern: file, backfillMinutes: 0 });
+      expect(tailer.getStatus().files).toEqual([]);
+
+      writeFileSync(file, 'hello\n');
+      tick();
+      expect(lines).toEqual(['hello']);
+    });
+  });
+
+  describe('checkpoints and backfill', () => {
+    // Lines look like `<ISO time> <text>`
+    const lineTime = (line: string) => Date.parse(line.split(' ')[0]) || null;
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+    it('resumes from the checkpoint after a restart', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, 'a\n');
+      const first = follow({ pattern: file, backfillMinutes: 15 });
+      expect(lines).toEqual(['a']);
+
+      first.stop();
+      appendFileSync(file, 'b\nc\n');
+      follow({ pattern: file, backfillMinutes: 15 });
+      expect(lines).toEqual(['a', 'b', 'c']);
+    });
+
+    it('resumes after the last complete line, not a partial one', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, 'a\nhal');
+      follow({ pattern: file, backfillMinutes: 15 }).stop();
+
+      appendFileSync(file, 'f\n');
+      follow({ pattern: file, backfillMinutes: 15 });
+      expect(lines).toEqual(['a', 'half']);
+    });
+
+    it('starts over when the checkpointed file was replaced while down', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, 'a long line from the old file\n');
+      follow({ pattern: file, backfillMinutes: 15 }).stop();
+
+      rmSync(file);
+      writeFileSync(file, 'new\n');
+      follow({ pattern: file, backfillMinutes: 15 });
+      expect(lines).toEqual(['a long line from the old file', 'new']);
+    });
+
+    it('only replays lines inside the backfill window', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, `${minutesAgo(60)} too old\n${minutesAgo(5)} recent\nno timestamp\n`);
+      follow({ pattern: file, backfillMinutes: 15, lineTime });
+      expect(lines).toEqual([`${lines[0].split(' ')[0]} recent`, 'no timestamp']);
+
+      // Lines written after startup are never filtered
+      appendFileSync(file, `${minutesAgo(60)} late write\n`);
+      tick();
+      expect(lines[2]).toMatch(/ late write$/);
+    });
+
+    it('ignores checkpoints without backfill', () => {
+      const file = join(dir, 'openclaw.log');
+      writeFileSync(file, 'a\n');
+      follow({ pattern: file, backfillMinutes: 15 }).stop();
+
+      appendFileSync(file, 'missed\n');
+      follow({ pattern: file, backfillMinutes: 0 });
+      expect(lines).toEqual(['a']);
+    });
+
+    it('finishes the previous day\'s file left unread at shutdown', () => {
+      const yesterday = join(dir, 'openclaw-2026-03-01.log');
+      const today = join(dir, 'openclaw-2026-03-02.log');
+      writeFileSync(yesterday, 'read\n');
+      follow({ pattern: join(dir, 'openclaw-*.log'), backfillMinutes: 15 }).stop();
+
+      appendFileSync(yesterday, 'unread\n');
+      utimesSync(yesterday, DAY_AGO, DAY_AGO);
+      writeFileSync(today, 'today\n');
+      const tailer = follow({ pattern: join(dir, 'openclaw-*.log'), backfillMinutes: 15 });
+
+      expect(lines).toEqual(['read', 'unread', 'today']);
+      tick();
+      expect(tailer.getStatus().files.map(f => f.path)).toEqual([today]);
+    });
+  });
+
+  describe('log location', () => {
+    it('follows every current file a glob matches', () => {
+      const gw1 = join(dir, 'gw1-2026-03-02.log');
+      const gw2 = join(dir, 'gw2-2026-03-02.log');
+      writeFileSync(gw1, 'gw1 before\n');
+      writeFileSync(gw2, 'gw2 before\n');
+      const tailer = follow({ pattern: join(dir, '*.log'), backfillMinutes: 0 });
+
+      appendFileSync(gw1, 'gw1 after\n');
+      appendFileSync(gw2, 'gw2 after\n');
+      tick();
+      expect(lines).toEqual(['gw1 after', 'gw2 after']);
+      expect(tailer.getStatus().files.map(f => f.path)).toEqual([gw1, gw2]);
+    });
+
+    it('reads a file created after startup from its start, even without backfill', () => {
+      writeFileSync(join(dir, 'gw1.log'), 'existing\n');
+      const tailer = follow({ pattern: join(dir, '*.log'), backfillMinutes: 0 });
+
+      writeFileSync(join(dir, 'gw3.log'), 'first\nsecond\n');
+      tick();
+      expect(lines).toEqual(['first', 'second']);
+      expect(tailer.getStatus().files).toHaveLength(2);
+    });
+
+    it('ignores files that do not match the glob', () => {
+      follow({ pattern: join(dir, 'openclaw-*.log'), backfillMinutes: 0 });
+
+      writeFileSync(join(dir, 'other.log'), 'nope\n');
+      writeFileSync(join(dir, 'openclaw-2026-03-02.log.gz'), 'nope\n');
+      tick();
+      expect(lines).toEqual([]);
+    });
+  });
+});
+
+describe('matchingLogFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-logs-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists glob matches in name order', () => {
+    for (const name of ['openclaw-2026-03-02.log', 'openclaw-2026-03-01.log', 'notes.txt']) {
+      writeFileSync(join(dir, name), '');
+    }
+    expect(matchingLogFiles(join(dir, 'openclaw-*.log'))).toEqual([
+      join(dir, 'openclaw-2026-03-01.log'),
+      join(dir, 'openclaw-2026-03-02.log')
+    ]);
+  });
+
+  it('returns a plain path only when it exists', () => {
+    const file = join(dir, 'gateway.log');
+    expect(matchingLogFiles(file)).toEqual([]);
+    writeFileSync(file, '');
+    expect(matchingLogFiles(file)).toEqual([file]);
+    expect(matchingLogFiles(join(dir, 'missing', '*.log'))).toEqual([]);
+  });
+});
+
+describe('resolveLogPattern', () => {
+  it('uses the dated OpenClaw logs inside a configured directory', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'moltwire-logs-'));
+    mkdirSync(join(dir, 'sub'));
+    try {
+      expect(resolveLogPattern(join(dir, 'sub'))).toEqual({ pattern: join(dir, 'sub', 'openclaw-*.log'), source: 'config' });
+      expect(resolveLogPattern(join(dir, 'gw1-*.log'))).toEqual({ pattern: join(dir, 'gw1-*.log'), source: 'config' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { LogEvent, LogWatcher } from '../src/log-watcher.js';
+
+const T0 = new Date('2026-03-02T12:00:00.000Z').getTime();
+
+function inboundLine(from: string, body: string, sentAt: number): string {
+  return JSON.stringify({
+    0: 'gateway/channels/whatsapp/inbound',
+    1: { from, to: '+15550000000', body, timestamp: sentAt },
+    2: 'inbound message',
+    time: new Date(T0).toISOString()
+  });
+}
+
+function toolLine(phase: 'start' | 'end', toolCallId: string, seconds: number, tool = 'exec', args?: object): string {
+  const message = `embedded run tool ${phase}: runId=run-1 tool=${tool} toolCallId=${toolCallId}` +
+    (args ? ` args=${JSON.stringify(args)}` : '');
+  return JSON.stringify({ 0: 'agent/embedded', 1: message, time: new Date(T0 + seconds * 1000).toISOString() });
+}
+
+describe('LogWatcher', () => {
+  let dir: string;
+  let file: string;
+  let events: LogEvent[];
+  let watcher: LogWatcher;
+
+  async function watch(): Promise<void> {
+    watcher = new LogWatcher({ pattern: file, backfillMinutes: 0, checkpointFile: join(dir, 'checkpoints.json') });
+    await watcher.start(event => events.push(event));
+  }
+
+  function write(...lines: string[]): void {
+    appendFileSync(file, lines.map(line => line + '\n').join(''));
+    vi.advanceTimersByTime(1000);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-watcher-'));
+    file = join(dir, 'openclaw.log');
+    writeFileSync(file, '');
+    events = [];
+    vi.useFakeTimers({ now: T0 });
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('tool calls', () => {
+    it('pairs interleaved starts and ends by toolCallId', async () => {
+      await watch();
+      write(
+        toolLine('start', 'call_a', 0, 'exec', { command: 'sleep 5' }),
+        toolLine('start', 'call_b', 1, 'read', { path: 'notes.md' }),
+        toolLine('end', 'call_b', 2, 'read'),
+        toolLine('end', 'call_a', 5)
+      );
+
+      expect(events).toEqual([
+        expect.objectContaining({ toolCallId: 'call_b', toolName: 'read', duration: 1000, args: { path: 'notes.md' }, status: 'completed' }),
+        expect.objectContaining({ toolCallId: 'call_a', toolName: 'exec', duration: 5000, args: { command: 'sleep 5' }, status: 'completed' })
+      ]);
+    });
+
+    it('adds arguments logged on a separate line to the pending call', async () => {
+      await watch();
+      write(
+        toolLine('start', 'call_a', 0),
+        JSON.stringify({ 0: 'agent/embedded', 1: { toolCallId: 'call_a', args: { command: 'whoami' } }, 2: 'tool call' }),
+        toolLine('end', 'call_a', 1)
+      );
+
+      expect(events).toEqual([expect.objectContaining({ toolCallId: 'call_a', args: { command: 'whoami' } })]);
+    });
+
+    it('reports an end without a start with no duration', async () => {
+      await watch();
+      write(toolLine('end', 'call_x', 3));
+
+      expect(events).toEqual([expect.objectContaining({ toolCallId: 'call_x', duration: 0, args: undefined, status: 'completed' })]);
+    });
+
+    it('reports starts that never end as timed out', async () => {
+      await watch();
+      write(toolLine('start', 'call_a', 0, 'exec', { command: 'tail -f x' }), toolLine('start', 'call_b', 0));
+      write(toolLine('end', 'call_b', 1));
+      expect(events.map(e => e.eventType === 'tool_execution' && e.status)).toEqual(['completed']);
+
+      vi.advanceTimersByTime(16 * 60 * 1000);
+      expect(events[1]).toMatchObject({ toolCallId: 'call_a', args: { command: 'tail -f x' }, status: 'timed_out' });
+
+      // A late end for a call already reported is treated as a fresh one
+      write(toolLine('end', 'call_a', 1000));
+      expect(events[2]).toMatchObject({ toolCallId: 'call_a', duration: 0, status: 'completed' });
+    });
+
+    it('times out the oldest calls first once too many are in flight', async () => {
+      await watch();
+      write(...Array.from({ length: 501 }, (_, i) => toolLine('start', `call_${i}`, 0)));
+
+      expect(events).toEqual([expect.objectContaining({ toolCallId: 'call_0', status: 'timed_out' })]);
+    });
+  });
+
+  describe('inbound message dedupe', () => {
+    const bodies = () => events.map(e => e.eventType === 'inbound_message' ? `${e.from}: ${e.body}` : e.eventType);
+
+    it('drops the same message logged again and counts it', async () => {
+      await watch();
+      write(inboundLine('+15551111111', 'hi', T0), inboundLine('+15551111111', 'hi', T0));
+
+      expect(bodies()).toEqual(['+15551111111: hi']);
+      expect(watcher.getStatus().duplicatesSuppressed).toBe(1);
+    });
+
+    it('keeps identical bodies from different senders or send times', async () => {
+      await watch();
+      write(
+        inboundLine('+15551111111', 'ok', T0),
+        inboundLine('+15552222222', 'ok', T0),
+        inboundLine('+15551111111', 'ok', T0 + 1)
+      );
+
+      expect(bodies()).toEqual(['+15551111111: ok', '+15552222222: ok', '+15551111111: ok']);
+      expect(watcher.getStatus().duplicatesSuppressed).toBe(0);
+    });
+
+    it('lets a repeat through once the dedupe window has passed', async () => {
+      await watch();
+      write(inboundLine('+15551111111', 'hi', T0));
+
+      vi.advanceTimersByTime(9 * 60 * 1000);
+      write(inboundLine('+15551111111', 'hi', T0));
+      expect(bodies()).toHaveLength(1);
+
+      // Each repeat restarts the window
+      vi.advanceTimersByTime(9 * 60 * 1000);
+      write(inboundLine('+15551111111', 'hi', T0));
+      expect(bodies()).toHaveLength(1);
+
+      vi.advanceTimersByTime(11 * 60 * 1000);
+      write(inboundLine('+15551111111', 'hi', T0));
+      expect(bodies()).toEqual(['+15551111111: hi', '+15551111111: hi']);
+      expect(watcher.getStatus().duplicatesSuppressed).toBe(2);
+    });
+  });
+});
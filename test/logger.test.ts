@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Logger, sanitizeFields, scrubSecrets } from '../src/logger.js';
+
+describe('scrubSecrets', () => {
+  it('removes API keys and bearer tokens', () => {
+    expect(scrubSecrets('key mw_live_abc123 rejected')).toBe('key [REDACTED] rejected');
+    expect(scrubSecrets('Authorization: Bearer eyJhbGciOi.x-y_z')).toBe('Authorization: [REDACTED]');
+    expect(scrubSecrets('using sk-abcdefghijklmnopqrstuvwx')).toBe('using [REDACTED]');
+  });
+
+  it('keeps query parameter names and redacts their values', () => {
+    expect(scrubSecrets('GET https://x.example/cb?code=1&access_token=abc.def&x=2'))
+      .toBe('GET https://x.example/cb?code=1&access_token=[REDACTED]&x=2');
+  });
+
+  it('leaves ordinary text alone', () => {
+    expect(scrubSecrets('Fetched 12 blocked domains')).toBe('Fetched 12 blocked domains');
+  });
+});
+
+describe('sanitizeFields', () => {
+  it('reduces message and command content to its length', () => {
+    expect(sanitizeFields({ body: 'hello there', Command: 'cat ~/.ssh/id_rsa', args: { command: 'ls' } })).toEqual({
+      body: '[11 chars]',
+      Command: '[17 chars]',
+      args: '[REDACTED]'
+    });
+  });
+
+  it('drops secret-looking fields but keeps flags and counts', () => {
+    expect(sanitizeFields({ apiKey: 'mw_x', signingSecret: 's', hasApiKey: true, tokenCount: 3 })).toEqual({
+      apiKey: '[REDACTED]',
+      signingSecret: '[REDACTED]',
+      hasApiKey: true,
+      tokenCount: 3
+    });
+  });
+
+  it('keeps only the name and scrubbed message of errors', () => {
+    const error = new Error('401 for mw_live_abc');
+    expect(sanitizeFields({ error })).toEqual({ error: { name: 'Error', message: '401 for [REDACTED]' } });
+  });
+
+  it('truncates long strings and stops at a fixed depth', () => {
+    expect((sanitizeFields('x'.repeat(600)) as string)).toHaveLength(503);
+    expect(sanitizeFields({ a: { b: { c: { d: { e: 1 } } } } })).toEqual({ a: { b: { c: { d: '[Object]' } } } });
+    expect(sanitizeFields(['mw_live_abc', 2])).toEqual(['[REDACTED]', 2]);
+  });
+});
+
+describe('Logger', () => {
+  let dir: string;
+  let log: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-logger-'));
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('only writes debug entries when debug is enabled', () => {
+    const logger = new Logger();
+    logger.debug('hidden');
+    logger.configure({ debug: true });
+    logger.debug('shown', { count: 2 });
+
+    expect(log.mock.calls.map(call => call[0])).toEqual(['[Moltwire] shown count=2']);
+  });
+
+  it('sanitizes fields in text and JSON output', () => {
+    const logger = new Logger();
+    logger.info('Inbound message', { content: 'secret plan', channel: 'whatsapp' });
+    logger.configure({ format: 'json' });
+    logger.info('Inbound message', { content: 'secret plan', channel: 'whatsapp' });
+
+    expect(log.mock.calls[0][0]).toBe('[Moltwire] Inbound message content="[11 chars]" channel=whatsapp');
+    expect(JSON.parse(log.mock.calls[1][0])).toMatchObject({ level: 'info', msg: 'Inbound message', content: '[11 chars]', channel: 'whatsapp' });
+  });
+
+  it('appends to a log file instead of the console when one is set', () => {
+    const file = join(dir, 'logs', 'moltwire.log');
+    const logger = new Logger();
+    logger.configure({ file });
+    logger.warn('API error: 503', { apiKey: 'mw_live_abc' });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(readFileSync(file, 'utf-8')).toMatch(/^\S+ WARN \[Moltwire\] API error: 503 apiKey=\[REDACTED\]\n$/);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir, tmpdir } from 'os';
+import { compilePathGlob, expandPath, isInside, normalizePath, resolveSymlinks } from '../src/paths.js';
+import { classifyCommand, isCredentialPath } from '../src/classifier.js';
+
+describe('expandPath', () => {
+  it('expands ~ and environment variables', () => {
+    expect(expandPath('~/notes.txt')).toBe(join(homedir(), 'notes.txt'));
+    expect(expandPath('$CONF/app.ini', { CONF: '/etc/app' })).toBe('/etc/app/app.ini');
+    expect(expandPath('${CONF}/app.ini', { CONF: '/etc/app' })).toBe('/etc/app/app.ini');
+  });
+
+  it('leaves unknown variables alone', () => {
+    expect(expandPath('$NOPE/x', {})).toBe('$NOPE/x');
+  });
+});
+
+describe('normalizePath', () => {
+  it('collapses dot segments and repeated slashes', () => {
+    expect(normalizePath('/home/u/work/../.ssh//id_rsa')).toBe('/home/u/.ssh/id_rsa');
+  });
+
+  it('resolves relative paths against the cwd', () => {
+    expect(normalizePath('../.aws/credentials', '/home/u/work')).toBe('/home/u/.aws/credentials');
+    expect(normalizePath('notes.txt')).toBe('notes.txt');
+  });
+});
+
+describe('compilePathGlob', () => {
+  it('matches per segment at any depth unless anchored', () => {
+    expect(compilePathGlob('.ssh/**').test('/home/u/.ssh/id_rsa')).toBe(true);
+    expect(compilePathGlob('.ssh/**').test('/home/u/.ssh')).toBe(true);
+    expect(compilePathGlob('.ssh/**').test('/home/u/not.ssh/x')).toBe(false);
+    expect(compilePathGlob('id_rsa*').test('/tmp/id_rsa.pub')).toBe(true);
+    expect(compilePathGlob('/etc/shadow').test('/backup/etc/shadow')).toBe(false);
+  });
+});
+
+describe('isInside', () => {
+  it('does not treat a shared prefix as containment', () => {
+    expect(isInside('/home/u/work/a', '/home/u/work')).toBe(true);
+    expect(isInside('/home/u/work', '/home/u/work')).toBe(true);
+    expect(isInside('/home/u/workspace', '/home/u/work')).toBe(false);
+  });
+});
+
+describe('isCredentialPath', () => {
+  it('recognizes common credential files', () => {
+    expect(isCredentialPath('~/.ssh/id_rsa')).toBe(true);
+    expect(isCredentialPath('~/.aws/credentials')).toBe(true);
+    expect(isCredentialPath('/srv/app/.env.production')).toBe(true);
+    expect(isCredentialPath('/home/u/work/../.ssh/config')).toBe(true);
+  });
+
+  it('ignores look-alike names', () => {
+    expect(isCredentialPath('~/notes.txt')).toBe(false);
+    expect(isCredentialPath('/home/u/project/docs/ssh-setup.md')).toBe(false);
+  });
+
+  it('only treats secret-named data files as credentials, not source files', () => {
+    expect(isCredentialPath('/home/u/project/secrets.yaml')).toBe(true);
+    expect(isCredentialPath('/home/u/project/tokens.json')).toBe(true);
+    expect(isCredentialPath('/home/u/project/src/tokens.ts')).toBe(false);
+    expect(isCredentialPath('/home/u/project/src/secrets.ts')).toBe(false);
+    expect(isCredentialPath('/home/u/project/lib/credentials.py')).toBe(false);
+
+    const result = classifyCommand({ toolName: 'exec', command: 'cat src/tokens.ts', cwd: '/home/u/project' });
+    expect(result.patterns).not.toContain('file_read_credential');
+  });
+});
+
+describe('credential reads through relative paths and symlinks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = realpathSync(mkdtempSync(join(tmpdir(), 'moltwire-paths-')));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves relative paths against earlier cd commands', () => {
+    const result = classifyCommand({ toolName: 'exec', command: 'cd ~/.ssh && cat id_ed25519', cwd: '/home/agent/work' });
+    expect(result.primary).toBe('file_read_credential');
+  });
+
+  it('follows symlinks to the file actually read', () => {
+    mkdirSync(join(dir, '.ssh'));
+    writeFileSync(join(dir, '.ssh', 'id_rsa'), 'key');
+    symlinkSync(join(dir, '.ssh', 'id_rsa'), join(dir, 'harmless.txt'));
+
+    expect(resolveSymlinks(join(dir, 'harmless.txt'))).toBe(join(dir, '.ssh', 'id_rsa'));
+    // Missing trailing parts are kept as they are
+    expect(resolveSymlinks(join(dir, 'missing', 'file'))).toBe(join(dir, 'missing', 'file'));
+
+    const context = { toolName: 'exec', command: 'cat harmless.txt', cwd: dir };
+    expect(classifyCommand(context, [], { resolveSymlinks: true }).primary).toBe('file_read_credential');
+    expect(classifyCommand(context, [], { resolveSymlinks: false }).primary).not.toBe('file_read_credential');
+  });
+});
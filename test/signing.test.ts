@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHmac, hkdfSync } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SequenceCounter, deriveSigningKey, signatureHeaders } from '../src/signing.js';
+
+describe('deriveSigningKey', () => {
+  it('derives a 32-byte key from the API key with HKDF', () => {
+    const key = deriveSigningKey('mw_live_abc');
+    const expected = Buffer.from(hkdfSync('sha256', 'mw_live_abc', 'moltwire-request-signing', 'v1', 32));
+
+    expect(key).toEqual(expected);
+    expect(key.toString('utf-8')).not.toContain('mw_live_abc');
+    expect(deriveSigningKey('mw_live_other')).not.toEqual(key);
+  });
+
+  it('uses a separately issued signing secret as-is', () => {
+    expect(deriveSigningKey('mw_live_abc', 'shared-secret')).toEqual(Buffer.from('shared-secret'));
+  });
+});
+
+describe('signatureHeaders', () => {
+  const key = deriveSigningKey('mw_live_abc');
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function expectedSignature(headers: Record<string, string>, body: Buffer | string): string {
+    const mac = createHmac('sha256', key)
+      .update(`v1:${headers['X-Moltwire-Timestamp']}:${headers['X-Moltwire-Nonce']}:`)
+      .update(body)
+      .digest('hex');
+    return `v1=${mac}`;
+  }
+
+  it('signs the timestamp, nonce and exact body bytes', () => {
+    vi.useFakeTimers({ now: new Date('2026-03-02T12:00:00Z') });
+    const body = Buffer.from([0x1f, 0x8b, 0x08, 0x00]);
+    const headers = signatureHeaders(key, body);
+
+    expect(headers['X-Moltwire-Timestamp']).toBe(String(Date.parse('2026-03-02T12:00:00Z') / 1000));
+    expect(headers['X-Moltwire-Nonce']).toMatch(/^[0-9a-f]{32}$/);
+    expect(headers['X-Moltwire-Signature']).toBe(expectedSignature(headers, body));
+    expect(headers['X-Moltwire-Signature']).not.toBe(expectedSignature(headers, Buffer.from([0x1f, 0x8b, 0x08, 0x01])));
+  });
+
+  it('uses a fresh nonce for every request', () => {
+    const first = signatureHeaders(key, '{}');
+    const second = signatureHeaders(key, '{}');
+
+    expect(first['X-Moltwire-Nonce']).not.toBe(second['X-Moltwire-Nonce']);
+    expect(second['X-Moltwire-Signature']).toBe(expectedSignature(second, '{}'));
+  });
+});
+
+describe('SequenceCounter', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-sequence-'));
+    file = join(dir, 'nested', 'sequence');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts up from the persisted value', () => {
+    const counter = new SequenceCounter(file);
+    expect([counter.next(), counter.next(), counter.next()]).toEqual([1, 2, 3]);
+    counter.release();
+
+    expect(readFileSync(file, 'utf-8')).toBe('3');
+    expect(new SequenceCounter(file).next()).toBe(4);
+  });
+
+  it('reserves numbers in blocks instead of writing on every event', () => {
+    const counter = new SequenceCounter(file);
+    counter.next();
+    const reserved = readFileSync(file, 'utf-8');
+
+    for (let i = 0; i < 50; i++) counter.next();
+    expect(readFileSync(file, 'utf-8')).toBe(reserved);
+    expect(Number(reserved)).toBeGreaterThan(counter.current());
+  });
+
+  it('never reuses a number after an unclean exit', () => {
+    const crashed = new SequenceCounter(file);
+    const last = [crashed.next(), crashed.next()][1];
+
+    expect(new SequenceCounter(file).next()).toBeGreaterThan(last);
+  });
+
+  it('stays clear of numbers another process has reserved', () => {
+    const plugin = new SequenceCounter(file);
+    plugin.next();
+
+    const cli = new SequenceCounter(file);
+    const resubmitted = [cli.next(), cli.next()];
+    cli.release();
+
+    const later = Array.from({ length: 150 }, () => plugin.next());
+    expect(later).not.toContain(resubmitted[0]);
+    expect(later).not.toContain(resubmitted[1]);
+
+    // Once released, the file holds the last number handed out
+    plugin.release();
+    expect(Number(readFileSync(file, 'utf-8'))).toBe(plugin.current());
+  });
+
+  it('treats an unreadable file as zero', () => {
+    writeFileSync(join(dir, 'sequence'), 'garbage');
+    expect(new SequenceCounter(join(dir, 'sequence')).next()).toBe(1);
+  });
+});
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { hostname, tmpdir } from 'os';
+import { createSocket } from 'dgram';
+import { AddressInfo, createServer } from 'net';
+import { FileSink, OtlpSink, SyslogSink, WebhookSink } from '../src/sinks.js';
+import type { MoltwireEvent } from '../src/types.js';
+
+const TOOL: MoltwireEvent = {
+  event_id: 'evt-1',
+  event_type: 'tool_execution',
+  timestamp: '2026-03-02T12:00:00.000Z',
+  agent_id: 'agent-test',
+  session_id: 'session-1',
+  payload: { tool_name: 'exec', tool_category: 'shell', command_pattern: 'unknown', severity: 'low', duration_ms: 5, status: 'success' }
+};
+
+const ANOMALY: MoltwireEvent = {
+  event_id: 'evt-2',
+  event_type: 'anomaly_indicator',
+  timestamp: '2026-03-02T12:00:01.000Z',
+  agent_id: 'agent-test',
+  payload: { indicator_type: 'remote_script_exec', detail: 'curl piped into sh', severity: 'critical' }
+};
+
+describe('FileSink', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltwire-sink-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON event per line, creating the directory', async () => {
+    const path = join(dir, 'nested', 'events.jsonl');
+    const sink = new FileSink('file-1', path);
+
+    await sink.send([TOOL]);
+    await sink.send([ANOMALY]);
+
+    const lines = readFileSync(path, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([TOOL, ANOMALY]);
+  });
+
+  it('expands ~ to the home directory', async () => {
+    vi.stubEnv('HOME', dir);
+    await new FileSink('file-1', '~/events.jsonl').send([TOOL]);
+    expect(existsSync(join(dir, 'events.jsonl'))).toBe(true);
+  });
+});
+
+describe('WebhookSink', () => {
+  it('posts the batch with the configured headers', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    const sink = new WebhookSink('hook', 'https://hooks.example.com/x', { Authorization: 'Bearer t' }, fetchMock);
+
+    await sink.send([TOOL, ANOMALY]);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://hooks.example.com/x');
+    expect(init.headers).toMatchObject({ 'Content-Type': 'application/json', Authorization: 'Bearer t' });
+    expect(JSON.parse(init.body as string)).toEqual({ events: [TOOL, ANOMALY] });
+  });
+
+  it('fails the batch on an error status so it is retried', async () => {
+    const sink = new WebhookSink('hook', 'https://hooks.example.com/x', {}, async () => new Response('', { status: 502 }));
+    await expect(sink.send([TOOL])).rejects.toThrow('Webhook returned 502');
+  });
+});
+
+describe('SyslogSink', () => {
+  // local0 (16) * 8 + severity: informational for ordinary events, critical for critical indicators
+  const header = (priority: number, event: MoltwireEvent) =>
+    `<${priority}>1 ${event.timestamp} ${hostname()} moltwire ${process.pid} ${event.event_type} - `;
+
+  it('sends one RFC 5424 datagram per event over UDP', async () => {
+    const server = createSocket('udp4');
+    const received: string[] = [];
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', () => resolve()));
+    server.on('message', message => received.push(message.toString()));
+
+    try {
+      const sink = new SyslogSink('syslog', '127.0.0.1', server.address().port, 'udp', 16);
+      await sink.send([TOOL, ANOMALY]);
+      await vi.waitFor(() => expect(received).toHaveLength(2));
+
+      expect(received[0]).toBe(header(134, TOOL) + JSON.stringify(TOOL));
+      expect(received[1]).toBe(header(130, ANOMALY) + JSON.stringify(ANOMALY));
+    } finally {
+      server.close();
+    }
+  });
+
+  it('frames messages with octet counting over TCP', async () => {
+    let data = '';
+    const server = createServer(socket => socket.on('data', chunk => { data += chunk.toString(); }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+
+    try {
+      const sink = new SyslogSink('syslog', '127.0.0.1', (server.address() as AddressInfo).port, 'tcp', 1);
+      await sink.send([TOOL, ANOMALY]);
+
+      const messages = [header(14, TOOL) + JSON.stringify(TOOL), header(10, ANOMALY) + JSON.stringify(ANOMALY)];
+      await vi.waitFor(() => expect(data).toBe(messages.map(m => `${Buffer.byteLength(m)} ${m}`).join('')));
+    } finally {
+      server.close();
+    }
+  });
+
+  it('rejects when the collector is unreachable over TCP', async () => {
+    const server = createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const port = (server.address() as AddressInfo).port;
+    await new Promise(resolve => server.close(resolve));
+
+    await expect(new SyslogSink('syslog', '127.0.0.1', port, 'tcp', 16).send([TOOL])).rejects.toThrow();
+  });
+});
+
+describe('OtlpSink', () => {
+  it('exports events as OTLP/HTTP JSON log records', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+    const sink = new OtlpSink('otlp', 'https://otel.example.com:4318/', 'my-agent', { 'x-api-key': 'k' }, fetchMock);
+
+    await sink.send([TOOL, ANOMALY]);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://otel.example.com:4318/v1/logs');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'k' });
+
+    const { resourceLogs } = JSON.parse(init.body as string);
+    expect(resourceLogs[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'my-agent' } }]);
+
+    const [tool, anomaly] = resourceLogs[0].scopeLogs[0].logRecords;
+    expect(tool).toMatchObject({
+      timeUnixNano: `${Date.parse(TOOL.timestamp)}000000`,
+      severityNumber: 9,
+      severityText: 'INFO',
+      body: { stringValue: JSON.stringify(TOOL.payload) }
+    });
+    expect(tool.attributes).toContainEqual({ key: 'moltwire.session_id', value: { stringValue: 'session-1' } });
+    expect(anomaly).toMatchObject({ severityNumber: 21, severityText: 'FATAL' });
+    expect(anomaly.attributes).not.toContainEqual(expect.objectContaining({ key: 'moltwire.session_id' }));
+  });
+
+  it('keeps an endpoint that already ends in /v1/logs', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+    await new OtlpSink('otlp', 'https://otel.example.com/v1/logs', 'moltwire', {}, fetchMock).send([TOOL]);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://otel.example.com/v1/logs');
+  });
+});
+
+describe('plugin sinks without an API key', () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'moltwire-plugin-'));
+    vi.stubEnv('HOME', home);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('still copies collected events to the sinks', async () => {
+    const logFile = join(home, 'openclaw.log');
+    const eventsFile = join(home, 'events.jsonl');
+    writeFileSync(logFile, JSON.stringify({ 0: 'gateway', 1: 'config reloaded', time: new Date().toISOString() }) + '\n');
+
+    const tools = new Map<string, { execute(id: string): Promise<unknown> }>();
+    const api = { on: vi.fn(), registerTool: (tool: { name: string; execute(id: string): Promise<unknown> }) => tools.set(tool.name, tool) };
+    const { default: moltwirePlugin } = await import('../src/index.js');
+    const stop = moltwirePlugin(api, { sinks: [{ type: 'file', path: eventsFile }], logPath: logFile, logBackfillMinutes: 5 })!;
+
+    try {
+      await vi.waitFor(async () => {
+        await tools.get('moltwire_flush')!.execute('call-1');
+        expect(existsSync(eventsFile)).toBe(true);
+      }, { timeout: 5000, interval: 200 });
+
+      const events = readFileSync(eventsFile, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+      expect(events.map(e => e.payload.change_type)).toEqual(['config_reloaded']);
+    } finally {
+      await stop();
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { extractTargets, normalizeHost } from '../src/targets.js';
+
+function hosts(command: string): string[] {
+  return extractTargets(command).map(target => target.host);
+}
+
+describe('extractTargets', () => {
+  it('reads the host, scheme and registrable domain of a URL', () => {
+    expect(extractTargets('curl -s https://dl.example.com/file')).toEqual([
+      { host: 'dl.example.com', scheme: 'https', isIp: false, isInternal: false, domain: 'example.com' }
+    ]);
+  });
+
+  it('skips the values of options that take an operand', () => {
+    expect(hosts('curl --max-filesize 104857600 -o out.bin https://dl.example.com/file')).toEqual(['dl.example.com']);
+    expect(hosts('curl -H "Host: x" --connect-timeout 5 http://10.0.0.5:8080/api')).toEqual(['10.0.0.5']);
+    expect(hosts('wget -T 30 --tries 3 https://mirror.example.net/pkg.tar.gz')).toEqual(['mirror.example.net']);
+    expect(hosts('ping -c 4 8.8.8.8')).toEqual(['8.8.8.8']);
+  });
+
+  it('reads ports from ssh and netcat operands', () => {
+    expect(extractTargets('ssh -p 2222 deploy@bastion.example.org')[0]).toMatchObject({ host: 'bastion.example.org', port: 2222, scheme: 'ssh' });
+    expect(extractTargets('nc -w 3 203.0.113.9 4444')[0]).toMatchObject({ host: '203.0.113.9', port: 4444, isIp: true, isInternal: false });
+  });
+
+  it('reads scp-style git remotes', () => {
+    expect(extractTargets('git clone git@github.com:org/repo.git')[0]).toMatchObject({ host: 'github.com', scheme: 'ssh' });
+  });
+
+  it('marks loopback and private addresses as internal', () => {
+    expect(extractTargets('curl localhost:3000/health')[0]).toMatchObject({ host: 'localhost', port: 3000, isInternal: true });
+    expect(extractTargets('curl http://10.0.0.5:8080/api')[0]).toMatchObject({ isIp: true, isInternal: true });
+  });
+
+  it('converts internationalized domains to punycode', () => {
+    expect(hosts('wget -T 30 https://пример.рф/x')).toEqual(['xn--e1afmkfd.xn--p1ai']);
+  });
+});
+
+describe('normalizeHost', () => {
+  it('keeps IP addresses', () => {
+    expect(normalizeHost('127.0.0.1')).toBe('127.0.0.1');
+    expect(normalizeHost('[::1]')).toBe('::1');
+  });
+
+  it('rejects bare numbers that would otherwise read as IPv4', () => {
+    expect(normalizeHost('104857600')).toBeUndefined();
+    expect(normalizeHost('30')).toBeUndefined();
+    expect(normalizeHost('1.5')).toBeUndefined();
+  });
+});